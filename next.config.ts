@@ -4,6 +4,9 @@ const nextConfig: NextConfig = {
   // Docker対応のための設定
   output: 'standalone',
 
+  // opencv.js（約8MBのEmscriptenモジュール）はバンドルせず、実行時にNode.jsで読み込む
+  serverExternalPackages: ['opencv.js'],
+
   // 画像最適化の設定
   images: {
     unoptimized: true,
@@ -0,0 +1,87 @@
+import axios from 'axios';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+
+import { fetchGSIBuildings } from '@/lib/buildings/gsi';
+import { fetchOSMBuildings } from '@/lib/buildings/overpass';
+import type { BuildingFeature } from '@/lib/buildings/types';
+import { DEFAULT_FIXTURE_DIR } from '@/lib/evaluation/fixtures';
+import { tileUrl } from '@/lib/tiles/layers';
+import { tilesInWindow, type TileWindow } from '@/lib/tiles/tile-range';
+
+// 地点周辺の国土地理院の標準地図タイルと正解の建物（OSM・国土地理院ベクトルタイル）を評価データとして保存する
+// ネットワークに接続するのはこのスクリプトだけで、保存した評価データは npm run evaluate でオフラインで使う
+// npm run capture-fixture -- --name shibuya --lat 35.658034 --lon 139.701636 [--reference osm|gsi] [--tiles 1]
+//   [--fixtures dir] [--description "..."]
+
+const ZOOM = 18;
+
+const { values } = parseArgs({
+  options: {
+    name: { type: 'string' },
+    lat: { type: 'string' },
+    lon: { type: 'string' },
+    reference: { type: 'string', default: 'osm' },
+    tiles: { type: 'string', default: '1' },
+    fixtures: { type: 'string', default: DEFAULT_FIXTURE_DIR },
+    description: { type: 'string' },
+  },
+});
+
+const fetchReferences = (reference: string, lat: number, lon: number, tileWindow: TileWindow): Promise<BuildingFeature[]> => {
+  if (reference === 'osm') return fetchOSMBuildings(lat, lon);
+  if (reference === 'gsi') return fetchGSIBuildings(lat, lon, tileWindow);
+  throw new Error(`Unknown reference: ${reference} (osm, gsi)`);
+};
+
+const main = async () => {
+  const lat = Number(values.lat);
+  const lon = Number(values.lon);
+  const radius = Number(values.tiles);
+  if (!values.name || !/^[\w.-]+$/.test(values.name)) throw new Error('--name must be a directory name');
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) throw new Error('--lat and --lon must be numbers');
+  if (!Number.isInteger(radius) || radius < 0) throw new Error('--tiles must be a non-negative integer');
+
+  const reference = values.reference ?? 'osm';
+  const tileWindow: TileWindow = { type: 'tiles', radius };
+  const dir = path.join(values.fixtures ?? DEFAULT_FIXTURE_DIR, values.name);
+
+  const references = await fetchReferences(reference, lat, lon, tileWindow);
+  if (references.length === 0) throw new Error(`No ${reference} buildings found around ${lat}, ${lon}`);
+
+  const tiles = tilesInWindow(lat, lon, ZOOM, tileWindow);
+  for (const tile of tiles) {
+    const response = await axios.get<ArrayBuffer>(tileUrl('std', ZOOM, tile.x, tile.y), {
+      responseType: 'arraybuffer',
+      timeout: 10000,
+    });
+    const tileDir = path.join(dir, 'tiles', String(ZOOM), String(tile.x));
+    await mkdir(tileDir, { recursive: true });
+    await writeFile(path.join(tileDir, `${tile.y}.png`), Buffer.from(response.data));
+  }
+
+  const collection = {
+    type: 'FeatureCollection',
+    features: references.map(feature => ({
+      type: 'Feature',
+      properties: { id: feature.properties.id, source: reference },
+      geometry: feature.geometry,
+    })),
+  };
+  await writeFile(path.join(dir, 'reference.geojson'), `${JSON.stringify(collection, null, 2)}\n`);
+  await writeFile(path.join(dir, 'fixture.json'), `${JSON.stringify({
+    lat,
+    lon,
+    zoom: ZOOM,
+    palette: 'std',
+    description: values.description ?? `${reference} buildings around ${lat}, ${lon}`,
+  }, null, 2)}\n`);
+
+  console.error(`Saved ${references.length} ${reference} buildings and ${tiles.length} tiles to ${dir}`);
+};
+
+main().catch(error => {
+  console.error('Capture error:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
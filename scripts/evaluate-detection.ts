@@ -0,0 +1,71 @@
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+
+import { resolveEvaluationDetector } from '@/lib/evaluation/detectors';
+import { DEFAULT_FIXTURE_DIR, loadFixtures } from '@/lib/evaluation/fixtures';
+import { DEFAULT_MATCH_IOU } from '@/lib/evaluation/metrics';
+import { runEvaluation } from '@/lib/evaluation/report';
+
+// 保存済みのタイルと正解の建物で検出精度を評価する（色分析・OpenCV はネットワークに接続せずに動く）
+// npm run evaluate -- [--fixtures dir] [--detector color|opencv|osm|gsi|path/to/detector.ts] [--match-iou 0.5] [--marker-radius 30]
+//   [--min-component-size 5] [--tolerance-scale 1] [--regularize] [--out report.json] [--min-f1 0.8]
+
+const { values } = parseArgs({
+  options: {
+    fixtures: { type: 'string', default: DEFAULT_FIXTURE_DIR },
+    detector: { type: 'string', default: 'color' },
+    'match-iou': { type: 'string' },
+    'marker-radius': { type: 'string' },
+    'min-component-size': { type: 'string' },
+    'tolerance-scale': { type: 'string' },
+    regularize: { type: 'boolean', default: false },
+    out: { type: 'string' },
+    'min-f1': { type: 'string' },
+  },
+});
+
+const numberOption = (name: keyof typeof values): number | undefined => {
+  const value = values[name];
+  if (typeof value !== 'string') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`--${name} must be a number: ${value}`);
+  return parsed;
+};
+
+const main = async () => {
+  const detector = await resolveEvaluationDetector(values.detector ?? 'color', {
+    markerRadius: numberOption('marker-radius'),
+    minComponentSize: numberOption('min-component-size'),
+    toleranceScale: numberOption('tolerance-scale'),
+    regularize: values.regularize,
+  });
+
+  const fixtures = await loadFixtures(values.fixtures);
+  if (fixtures.length === 0) throw new Error(`No fixtures found in ${values.fixtures}`);
+
+  const report = await runEvaluation(fixtures, detector, numberOption('match-iou') ?? DEFAULT_MATCH_IOU);
+  const json = JSON.stringify(report, null, 2);
+
+  if (values.out) {
+    await writeFile(values.out, `${json}\n`);
+  } else {
+    process.stdout.write(`${json}\n`);
+  }
+
+  const { summary } = report;
+  console.error(
+    `${fixtures.length} fixtures: precision ${summary.precision.toFixed(3)}, recall ${summary.recall.toFixed(3)}, ` +
+    `F1 ${summary.f1.toFixed(3)}, mean IoU ${summary.meanIoU.toFixed(3)}`
+  );
+
+  const minF1 = numberOption('min-f1');
+  if (minF1 !== undefined && summary.f1 < minF1) {
+    console.error(`F1 ${summary.f1.toFixed(3)} is below --min-f1 ${minF1}`);
+    process.exitCode = 1;
+  }
+};
+
+main().catch(error => {
+  console.error('Evaluation error:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
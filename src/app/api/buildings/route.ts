@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isDetectionMode } from '@/lib/buildings/detector';
+import { DEFAULT_DETECTION_STRATEGY, lookupBuildings } from '@/lib/buildings/lookup';
+import { isBuildingSource, type BuildingSource } from '@/lib/buildings/sources';
+import { DEFAULT_TILE_WINDOW, type TileWindow } from '@/lib/tiles/tile-range';
+
+// 建物の取得（Overpass・国土地理院ベクトルタイル・色分析・OpenCV）をサーバー側で行う
+// GET /api/buildings?lat=&lon=&radius=&tiles=&sources=osm,gsi,color,opencv&strategy=first-success&conflate=false&regularize=true
+// sources の順に試す（first-success）、または代表ジオメトリを選ぶ（conflate）
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+
+    const lat = Number(searchParams.get('lat'));
+    const lon = Number(searchParams.get('lon'));
+    if (!searchParams.get('lat') || !searchParams.get('lon') || !Number.isFinite(lat) || !Number.isFinite(lon)
+        || Math.abs(lat) > 85 || Math.abs(lon) > 180) {
+        return NextResponse.json({ error: 'Valid lat and lon are required' }, { status: 400 });
+    }
+
+    // OSMの検索半径（メートル）
+    const radiusParam = searchParams.get('radius');
+    const radius = radiusParam === null ? undefined : Number(radiusParam);
+    if (radius !== undefined && (!Number.isFinite(radius) || radius <= 0 || radius > 2000)) {
+        return NextResponse.json({ error: 'radius must be between 0 and 2000 metres' }, { status: 400 });
+    }
+
+    // タイルを使う取得元の範囲（中心タイルからの半径、1 → 3×3）
+    const tilesParam = searchParams.get('tiles');
+    let tileWindow: TileWindow = DEFAULT_TILE_WINDOW;
+    if (tilesParam !== null) {
+        const tileRadius = Number(tilesParam);
+        if (!Number.isInteger(tileRadius) || tileRadius < 0 || tileRadius > 3) {
+            return NextResponse.json({ error: 'tiles must be an integer between 0 and 3' }, { status: 400 });
+        }
+        tileWindow = { type: 'tiles', radius: tileRadius };
+    }
+
+    const sourcesParam = searchParams.get('sources');
+    const requestedSources = sourcesParam
+        ? sourcesParam.split(',').map(source => source.trim()).filter(Boolean)
+        : DEFAULT_DETECTION_STRATEGY.order;
+    const unknownSources = requestedSources.filter(source => !isBuildingSource(source));
+    if (unknownSources.length > 0 || requestedSources.length === 0) {
+        return NextResponse.json({
+            error: 'Unknown building source',
+            details: unknownSources,
+        }, { status: 400 });
+    }
+
+    const mode = searchParams.get('strategy') ?? DEFAULT_DETECTION_STRATEGY.mode;
+    if (!isDetectionMode(mode)) {
+        return NextResponse.json({
+            error: 'Unknown detection strategy',
+            details: mode,
+        }, { status: 400 });
+    }
+
+    try {
+        const result = await lookupBuildings(lat, lon, {
+            radius,
+            tileWindow,
+            strategy: { mode, order: [...new Set(requestedSources)] as BuildingSource[] },
+            conflate: searchParams.get('conflate') !== 'false',
+            regularize: searchParams.get('regularize') === 'true',
+        });
+
+        // 失敗した取得元がある結果はキャッシュしない
+        const hasErrors = result.detectors.some(report => report.status === 'error');
+
+        return NextResponse.json(result, {
+            headers: {
+                'Cache-Control': hasErrors ? 'no-store' : 'public, max-age=300', // 5分キャッシュ
+                'Access-Control-Allow-Origin': '*',
+            },
+        });
+    } catch (error) {
+        console.error('Building lookup error:', error);
+        return NextResponse.json({
+            error: 'Failed to look up buildings',
+            details: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { configuredGeocoders, geocodeAddress, isGeocoderName, type GeocoderName } from '@/lib/geocoding/geocode';
+import { DEFAULT_GEOCODE_LIMIT } from '@/lib/geocoding/provider';
+
+// 住所検索をサーバー側で行う（GoogleのAPIキーをブラウザに渡さない）
+// GET /api/geocode?q=&providers=gsi,nominatim&limit=5
+// providers の順に試し、最初に結果が見つかった検索先の結果を返す
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+
+    const query = searchParams.get('q')?.trim();
+    if (!query) {
+        return NextResponse.json({ error: 'q is required' }, { status: 400 });
+    }
+    if (query.length > 200) {
+        return NextResponse.json({ error: 'q must be at most 200 characters' }, { status: 400 });
+    }
+
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_GEOCODE_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 20) {
+        return NextResponse.json({ error: 'limit must be an integer between 1 and 20' }, { status: 400 });
+    }
+
+    const providersParam = searchParams.get('providers');
+    const requestedProviders = providersParam
+        ? providersParam.split(',').map(provider => provider.trim()).filter(Boolean)
+        : configuredGeocoders();
+    const unknownProviders = requestedProviders.filter(provider => !isGeocoderName(provider));
+    if (unknownProviders.length > 0 || requestedProviders.length === 0) {
+        return NextResponse.json({
+            error: 'Unknown geocoding provider',
+            details: unknownProviders,
+        }, { status: 400 });
+    }
+
+    try {
+        const result = await geocodeAddress(query, {
+            providers: requestedProviders as GeocoderName[],
+            limit,
+            signal: request.signal,
+        });
+
+        // 失敗した検索先がある結果はキャッシュしない
+        const hasErrors = result.providers.some(report => report.status === 'error');
+
+        return NextResponse.json(result, {
+            headers: {
+                'Cache-Control': hasErrors ? 'no-store' : 'public, max-age=86400', // 1日キャッシュ
+            },
+        });
+    } catch (error) {
+        console.error('Geocoding error:', error);
+        return NextResponse.json({
+            error: 'Failed to geocode address',
+            details: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 500 });
+    }
+}
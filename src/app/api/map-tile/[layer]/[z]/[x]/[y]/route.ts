@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { parseTileRequest, TILE_LAYERS, tileUrl } from '@/lib/tiles/layers';
+import { fetchTileWithCache, matchesEtag, TILE_MAX_AGE_SECONDS } from '@/lib/tiles/tile-proxy';
+
+const UPSTREAM_HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept-Language': 'ja,en-US;q=0.7,en;q=0.3',
+    'Accept-Encoding': 'gzip, deflate, br',
+};
+
+// 登録済みレイヤーのタイルだけを中継する
+// GET /api/map-tile/{layer}/{z}/{x}/{y}
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ layer: string; z: string; x: string; y: string }> }
+) {
+    const parsed = parseTileRequest(await params);
+    if (!parsed.ok) {
+        return NextResponse.json({ error: parsed.error }, { status: parsed.status });
+    }
+
+    const { layer, z, x, y } = parsed;
+    const config = TILE_LAYERS[layer];
+    const cacheKey = `${layer}/${z}/${x}/${y}`;
+
+    try {
+        // 国土地理院のタイルを取得（ディスクキャッシュを介する）
+        const { tile, cacheStatus } = await fetchTileWithCache(cacheKey, {
+            url: tileUrl(layer, z, x, y),
+            // レイヤーの形式を要求する（ブラウザ向けのAcceptは送らない）
+            headers: { ...UPSTREAM_HEADERS, 'Accept': `${config.contentType},*/*;q=0.5` },
+            contentType: config.contentType,
+        });
+
+        const cacheHeaders = {
+            'Cache-Control': `public, max-age=${TILE_MAX_AGE_SECONDS}`, // 1時間キャッシュ
+            'Access-Control-Allow-Origin': '*',
+            'X-Cache': cacheStatus,
+        };
+
+        // データのないタイル：ベクトルタイルは空（204）、画像は404を本文なしで返す
+        if (!tile) {
+            return new NextResponse(null, {
+                status: config.emptyAsNoContent ? 204 : 404,
+                headers: cacheHeaders,
+            });
+        }
+
+        const headers = { ...cacheHeaders, 'ETag': tile.etag };
+
+        // クライアントが同じタイルを持っていれば本体を送らない
+        if (matchesEtag(request.headers.get('If-None-Match'), tile.etag)) {
+            return new NextResponse(null, { status: 304, headers });
+        }
+
+        // 上流の形式のまま返す
+        return new NextResponse(new Uint8Array(tile.data), {
+            headers: {
+                ...headers,
+                'Content-Type': tile.contentType,
+            },
+        });
+
+    } catch (error) {
+        console.error('Map tile proxy error:', error);
+        console.error('Requested tile:', cacheKey);
+        return NextResponse.json({
+            error: 'Failed to fetch map tile',
+            details: error instanceof Error ? error.message : 'Unknown error',
+            tile: cacheKey
+        }, { status: 502 });
+    }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+    configuredGeocoders,
+    isGeocoderName,
+    reverseGeocodeLocation,
+    supportsReverseGeocoding,
+    type GeocoderName,
+} from '@/lib/geocoding/geocode';
+
+// 緯度経度から住所を求める（逆ジオコーディング）
+// GET /api/reverse-geocode?lat=&lon=&providers=gsi,nominatim
+// providers の順に試し、最初に住所が見つかった検索先の結果を返す
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+
+    const lat = Number(searchParams.get('lat'));
+    const lon = Number(searchParams.get('lon'));
+    if (!searchParams.get('lat') || !searchParams.get('lon') || !Number.isFinite(lat) || !Number.isFinite(lon)
+        || Math.abs(lat) > 85 || Math.abs(lon) > 180) {
+        return NextResponse.json({ error: 'Valid lat and lon are required' }, { status: 400 });
+    }
+
+    const providersParam = searchParams.get('providers');
+    const requestedProviders = providersParam
+        ? providersParam.split(',').map(provider => provider.trim()).filter(Boolean)
+        : configuredGeocoders().filter(supportsReverseGeocoding);
+    const unsupportedProviders = requestedProviders.filter(provider =>
+        !isGeocoderName(provider) || !supportsReverseGeocoding(provider)
+    );
+    if (unsupportedProviders.length > 0 || requestedProviders.length === 0) {
+        return NextResponse.json({
+            error: 'Unknown reverse geocoding provider',
+            details: unsupportedProviders,
+        }, { status: 400 });
+    }
+
+    try {
+        const result = await reverseGeocodeLocation(lat, lon, {
+            providers: requestedProviders as GeocoderName[],
+            limit: 1,
+            signal: request.signal,
+        });
+
+        // 失敗した検索先がある結果はキャッシュしない
+        const hasErrors = result.providers.some(report => report.status === 'error');
+
+        return NextResponse.json(result, {
+            headers: {
+                'Cache-Control': hasErrors ? 'no-store' : 'public, max-age=86400', // 1日キャッシュ
+            },
+        });
+    } catch (error) {
+        console.error('Reverse geocoding error:', error);
+        return NextResponse.json({
+            error: 'Failed to reverse geocode location',
+            details: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 500 });
+    }
+}
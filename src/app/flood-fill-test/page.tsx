@@ -1,118 +1,66 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import dynamic from 'next/dynamic';
 import axios from 'axios';
 
-interface Point {
-  x: number;
-  y: number;
-}
-
-interface Color {
-  r: number;
-  g: number;
-  b: number;
-  a: number;
-}
-
-// Google Maps Geocoding APIの型定義
-interface GoogleGeocodingResponse {
-  results: Array<{
-    geometry: {
-      location: {
-        lat: number;
-        lng: number;
-      };
-    };
-    formatted_address: string;
-  }>;
-  status: string;
-}
+import type { GeocodeResponse, ReverseGeocodeResponse } from '@/lib/geocoding/provider';
+import { isAbortError, runRasterAnalysis } from '@/lib/raster/analysis-client';
+import type { RGBAColor } from '@/lib/raster/flood-fill';
+import { PALETTES, createColorClassifier, isPaletteStyle, type PaletteStyle } from '@/lib/raster/palette';
+import { proxiedTileUrl } from '@/lib/tiles/layers';
+import {
+  DEFAULT_TILE_SIZE,
+  lonLatToPixel,
+  pixelToLonLat,
+  pixelToTile,
+  tileOriginPixel,
+  tilesInRange,
+  type LonLat,
+  type PixelPoint,
+} from '@/lib/tiles/mercator';
+
+// Canvasに描画する地図のズームレベル
+const MAP_ZOOM = 18;
+
+// 地図中心をCanvas中心に合わせたときのCanvas左上の全体ピクセル座標
+const canvasOriginPixel = (canvas: HTMLCanvasElement, center: LonLat): PixelPoint => {
+  const [x, y] = lonLatToPixel(center, MAP_ZOOM);
+  return [x - canvas.width / 2, y - canvas.height / 2];
+};
+
+// 経度緯度をCanvas上の座標に変換
+const lonLatToCanvasPixel = (canvas: HTMLCanvasElement, center: LonLat, point: LonLat): PixelPoint => {
+  const [originX, originY] = canvasOriginPixel(canvas, center);
+  const [x, y] = lonLatToPixel(point, MAP_ZOOM);
+  return [x - originX, y - originY];
+};
 
 const FloodFillTestPage: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [fillColor, setFillColor] = useState<string>('#ff0000');
-  const [tolerance, setTolerance] = useState<number>(30);
+  // Flood Fillで同じ領域とみなす色差（ΔE）
+  const [tolerance, setTolerance] = useState<number>(10);
+  const [paletteStyle, setPaletteStyle] = useState<PaletteStyle>('std');
   const [status, setStatus] = useState<string>('住所を検索して建物をFlood Fillしてください');
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [address, setAddress] = useState<string>('');
   const [center, setCenter] = useState<[number, number]>([35.6762, 139.6503]); // 東京
   const [mapKey, setMapKey] = useState(0);
   const [markerPosition, setMarkerPosition] = useState<[number, number] | null>(null);
+  const reverseControllerRef = useRef<AbortController | null>(null);
 
-  // 建物色の定義（国土地理院地図用）
-  const BUILDING_COLORS = {
-    // 建物本体の色（国土地理院の建物色）
-    building: [
-      { r: 255, g: 230, b: 190 }, // #FFE6BE - 標準的な建物色
-      { r: 254, g: 229, b: 189 }, // 少しの誤差を許容
-      { r: 255, g: 231, b: 191 },
-      { r: 255, g: 235, b: 205 }, // より明るい建物色
-      { r: 255, g: 225, b: 185 }, // より暗い建物色
-      { r: 255, g: 240, b: 210 }, // さらに明るい建物色
-      { r: 255, g: 220, b: 180 }, // さらに暗い建物色
-    ],
-    // 建物境界線の色
-    boundary: [
-      { r: 255, g: 178, b: 128 }, // #FFB280
-      { r: 255, g: 212, b: 169 }, // #FFD4A9
-      { r: 255, g: 135, b: 75 },  // #FF874B
-      { r: 255, g: 165, b: 115 }, // 中間的な境界線色
-      { r: 255, g: 190, b: 140 }, // 明るい境界線色
-      { r: 255, g: 150, b: 100 }, // 暗い境界線色
-    ]
-  };
-
-  // 色の類似度を計算（既存地図ページと同じ）
-  const colorSimilarity = useCallback((color1: {r: number, g: number, b: number}, color2: {r: number, g: number, b: number}) => {
-    const diff = Math.abs(color1.r - color2.r) + 
-                 Math.abs(color1.g - color2.g) + 
-                 Math.abs(color1.b - color2.b);
-    return diff;
-  }, []);
-
-  // 建物色かどうかを判定（既存地図ページと同じ）
-  const isBuildingColor = useCallback((r: number, g: number, b: number, tolerance: number = 50) => {
-    const color = { r, g, b };
-    
-    // 建物本体の色かチェック
-    for (const buildingColor of BUILDING_COLORS.building) {
-      if (colorSimilarity(color, buildingColor) <= tolerance) {
-        return 'building';
-      }
-    }
-    
-    // 建物境界線の色かチェック
-    for (const boundaryColor of BUILDING_COLORS.boundary) {
-      if (colorSimilarity(color, boundaryColor) <= tolerance) {
-        return 'boundary';
-      }
-    }
-    
-    return 'none';
-  }, [colorSimilarity]);
-
-  // 色の類似性を判定する関数
-  const isSimilarColor = useCallback((color1: Color, color2: Color, tolerance: number): boolean => {
-    const diff = Math.sqrt(
-      Math.pow(color1.r - color2.r, 2) +
-      Math.pow(color1.g - color2.g, 2) +
-      Math.pow(color1.b - color2.b, 2)
-    );
-    return diff <= tolerance;
-  }, []);
+  // 背景地図のスタイルに合わせたパレットで画素を分類
+  const classifyColor = useMemo(() => createColorClassifier(PALETTES[paletteStyle]), [paletteStyle]);
 
   // 住所から緯度経度を取得
   const handleGeocode = useCallback(async (searchAddress: string): Promise<[number, number] | null> => {
     try {
-      const response = await axios.get<GoogleGeocodingResponse>(
-        `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(searchAddress)}&key=${process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY}`
-      );
+      const response = await axios.get<GeocodeResponse>('/api/geocode', { params: { q: searchAddress } });
 
-      if (response.data.status === 'OK' && response.data.results.length > 0) {
-        const location = response.data.results[0].geometry.location;
-        return [location.lat, location.lng];
+      const [result] = response.data.results;
+      if (result) {
+        return [result.lat, result.lon];
       } else {
         setStatus('住所が見つかりませんでした。');
         return null;
@@ -124,82 +72,8 @@ const FloodFillTestPage: React.FC = () => {
     }
   }, []);
 
-  // Flood Fillアルゴリズム（スタックベース）
-  const floodFill = useCallback((
-    imageData: ImageData,
-    startX: number,
-    startY: number,
-    targetColor: Color,
-    fillColor: Color,
-    tolerance: number
-  ): number => {
-    const { width, height, data } = imageData;
-    const stack: Point[] = [{ x: startX, y: startY }];
-    let processedPixels = 0;
-
-    // 開始点の色を取得
-    const startIndex = (startY * width + startX) * 4;
-    const startColor: Color = {
-      r: data[startIndex],
-      g: data[startIndex + 1],
-      b: data[startIndex + 2],
-      a: data[startIndex + 3]
-    };
-
-    // 開始色と塗りつぶし色が同じ場合は処理をスキップ
-    if (startColor.r === fillColor.r && 
-        startColor.g === fillColor.g && 
-        startColor.b === fillColor.b) {
-      return 0;
-    }
-
-    while (stack.length > 0) {
-      const { x, y } = stack.pop()!;
-      
-      // 境界チェック
-      if (x < 0 || x >= width || y < 0 || y >= height) {
-        continue;
-      }
-
-      const index = (y * width + x) * 4;
-      const currentColor: Color = {
-        r: data[index],
-        g: data[index + 1],
-        b: data[index + 2],
-        a: data[index + 3]
-      };
-
-      // 色が類似していない場合はスキップ
-      if (!isSimilarColor(currentColor, startColor, tolerance)) {
-        continue;
-      }
-
-      // 既に塗りつぶし色の場合はスキップ
-      if (currentColor.r === fillColor.r && 
-          currentColor.g === fillColor.g && 
-          currentColor.b === fillColor.b) {
-        continue;
-      }
-
-      // ピクセルを塗りつぶし色で更新
-      data[index] = fillColor.r;
-      data[index + 1] = fillColor.g;
-      data[index + 2] = fillColor.b;
-      data[index + 3] = fillColor.a;
-      processedPixels++;
-
-      // 隣接ピクセルをスタックに追加
-      stack.push({ x: x + 1, y });
-      stack.push({ x: x - 1, y });
-      stack.push({ x, y: y + 1 });
-      stack.push({ x, y: y - 1 });
-    }
-
-    return processedPixels;
-  }, [isSimilarColor]);
-
   // 塗りつぶし色を16進数からRGBに変換
-  const hexToRgb = useCallback((hex: string): Color => {
+  const hexToRgb = useCallback((hex: string): RGBAColor => {
     const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
     return result ? {
       r: parseInt(result[1], 16),
@@ -221,59 +95,52 @@ const FloodFillTestPage: React.FC = () => {
     ctx.fillRect(0, 0, width, height);
 
     try {
-      // タイル座標計算（src/app/page.tsxと同じ方法）
-      const zoom = 18; // 適度なズームレベル
-      const tileSize = 256;
-      const n = Math.pow(2, zoom);
-      const tileX = Math.floor((lon + 180) / 360 * n);
-      const tileY = Math.floor((1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * n);
-
-      // 表示するタイルの範囲を計算
-      const tilesX = Math.ceil(width / tileSize) + 1;
-      const tilesY = Math.ceil(height / tileSize) + 1;
-
-      console.log('Tile coordinates:', { tileX, tileY, tilesX, tilesY });
+      // 地図中心をCanvas中心に合わせ、Canvasに掛かるタイルの範囲を計算
+      const zoom = MAP_ZOOM;
+      const tileSize = DEFAULT_TILE_SIZE;
+      const [originX, originY] = canvasOriginPixel(ctx.canvas, [lon, lat]);
+      const topLeft = pixelToTile([originX, originY], zoom);
+      const bottomRight = pixelToTile([originX + width - 1, originY + height - 1], zoom);
+      const tiles = tilesInRange({ minX: topLeft.x, minY: topLeft.y, maxX: bottomRight.x, maxY: bottomRight.y }, zoom);
+
+      console.log('Tile coordinates:', { topLeft, bottomRight, count: tiles.length });
       
       // 複数のタイルを描画
-      for (let x = 0; x < tilesX; x++) {
-        for (let y = 0; y < tilesY; y++) {
-          const currentTileX = tileX + x;
-          const currentTileY = tileY + y;
-
-          // 国土地理院のタイルURL（正しいURL）
-          const tileUrl = `https://cyberjapandata.gsi.go.jp/xyz/std/${zoom}/${currentTileX}/${currentTileY}.png`;
-          console.log('Loading tile:', { x, y, currentTileX, currentTileY, tileUrl });
-
-          try {
-            // タイル画像を読み込み（CORS対応）
-            const img = new Image();
-            
-            await new Promise((resolve, reject) => {
-              img.onload = resolve;
-              img.onerror = reject;
-              // 直接国土地理院のタイルを読み込み
-              img.src = `/api/map-tile?url=${encodeURIComponent(tileUrl)}`;
+      for (const tile of tiles) {
+        const [tileOriginX, tileOriginY] = tileOriginPixel(tile);
+        const drawX = Math.round(tileOriginX - originX);
+        const drawY = Math.round(tileOriginY - originY);
+
+        // 国土地理院のタイル（タイルプロキシ経由）
+        const tileUrl = proxiedTileUrl(paletteStyle, zoom, tile.x, tile.y);
+        console.log('Loading tile:', { tile, drawX, drawY, tileUrl });
+
+        try {
+          // タイル画像を読み込み（CORS対応）
+          const img = new Image();
+          
+          await new Promise((resolve, reject) => {
+            img.onload = resolve;
+            img.onerror = reject;
+            img.src = tileUrl;
+          });
+
+          // タイルをCanvasに描画
+          ctx.drawImage(img, drawX, drawY, tileSize, tileSize);
+
+        } catch (error) {
+          console.warn(`Failed to load tile: ${tileUrl}`, error);
+          // タイル読み込み失敗時はグレーの背景を描画
+          ctx.fillStyle = '#f0f0f0';
+          ctx.fillRect(drawX, drawY, tileSize, tileSize);
+          
+          // エラー情報を詳細にログ出力
+          if (error instanceof Error) {
+            console.error('Tile loading error details:', {
+              url: tileUrl,
+              error: error.message,
+              stack: error.stack
             });
-
-            // タイルをCanvasに描画
-            const drawX = x * tileSize;
-            const drawY = y * tileSize;
-            ctx.drawImage(img, drawX, drawY, tileSize, tileSize);
-
-          } catch (error) {
-            console.warn(`Failed to load tile: ${tileUrl}`, error);
-            // タイル読み込み失敗時はグレーの背景を描画
-            ctx.fillStyle = '#f0f0f0';
-            ctx.fillRect(x * tileSize, y * tileSize, tileSize, tileSize);
-            
-            // エラー情報を詳細にログ出力
-            if (error instanceof Error) {
-              console.error('Tile loading error details:', {
-                url: tileUrl,
-                error: error.message,
-                stack: error.stack
-              });
-            }
           }
         }
       }
@@ -290,22 +157,12 @@ const FloodFillTestPage: React.FC = () => {
       ctx.textAlign = 'center';
       ctx.fillText('地図の読み込みに失敗しました', width / 2, height / 2);
     }
-  }, []);
+  }, [paletteStyle]);
 
   // ピンをcanvas上に描画する関数
   const drawMarker = useCallback((ctx: CanvasRenderingContext2D, lat: number, lon: number) => {
-    // 地図中心の緯度経度
-    const zoom = 18;
-    const tileSize = 256;
-    const n = Math.pow(2, zoom);
-    const tileX = Math.floor((lon + 180) / 360 * n);
-    const tileY = Math.floor((1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * n);
-    // canvasの中心を地図中心に合わせている前提
-    // 1タイル分だけ描画している場合はcanvas中心がcenter
-    // ここではcanvasの中心にピンを描画
-    const canvas = ctx.canvas;
-    const x = canvas.width / 2;
-    const y = canvas.height / 2;
+    // 地図中心（lat, lon）はcanvas中心に描画されるため、canvasの中心にピンを描画
+    const [x, y] = lonLatToCanvasPixel(ctx.canvas, [lon, lat], [lon, lat]);
     // ピン描画
     ctx.save();
     // 影
@@ -335,28 +192,79 @@ const FloodFillTestPage: React.FC = () => {
     ctx.restore();
   }, []);
 
-  // drawMapTileの後にピンを描画
-  const drawMapTileWithMarker = useCallback(async (ctx: CanvasRenderingContext2D, lat: number, lon: number) => {
+  // 地図座標の建物色からFlood Fill実行（塗りつぶしはワーカーで行う）
+  const detectAndFloodFill = useCallback(async (ctx: CanvasRenderingContext2D, signal?: AbortSignal) => {
+    try {
+      setIsProcessing(true);
+      setStatus('地図タイルを分析中...');
+      const canvas = ctx.canvas;
+      // 地図描画後のcanvasの、markerPosition（なければcenter）のピクセル色を調べる
+      const [latToUse, lonToUse] = markerPosition || center;
+      // 描画と同じ投影でcanvas上のピクセル座標を計算
+      const [canvasX, canvasY] = lonLatToCanvasPixel(canvas, [center[1], center[0]], [lonToUse, latToUse]);
+      const pixelX = Math.floor(canvasX);
+      const pixelY = Math.floor(canvasY);
+      if (pixelX < 0 || pixelX >= canvas.width || pixelY < 0 || pixelY >= canvas.height) {
+        setStatus('指定された座標は地図の範囲外です。');
+        return;
+      }
+      // 指定座標のピクセル色を取得
+      const imageData = ctx.getImageData(pixelX, pixelY, 1, 1);
+      const clickedColor = {
+        r: imageData.data[0],
+        g: imageData.data[1],
+        b: imageData.data[2],
+        a: imageData.data[3]
+      };
+      // 建物色かどうかを判定
+      const pixelClass = classifyColor(clickedColor.r, clickedColor.g, clickedColor.b);
+      if (pixelClass !== 'building') {
+        setStatus(`指定された座標は建物ではありません（${pixelClass}）。`);
+        return;
+      }
+      setStatus('建物を検出しました。Flood Fillを実行中...');
+      // 全体のピクセルデータを取得し、画素配列をワーカーへ転送してFlood Fillを実行
+      const fullImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const buffer = fullImageData.data.buffer as ArrayBuffer;
+      const result = await runRasterAnalysis(
+        {
+          type: 'flood-fill',
+          width: fullImageData.width,
+          height: fullImageData.height,
+          buffer,
+          x: pixelX,
+          y: pixelY,
+          fillColor: hexToRgb(fillColor),
+          tolerance
+        },
+        [buffer],
+        { signal }
+      );
+      // 結果をCanvasに反映
+      ctx.putImageData(new ImageData(new Uint8ClampedArray(result.buffer), result.width, result.height), 0, 0);
+      setStatus(`建物を検出し、${result.processedPixels}ピクセルを塗りつぶしました（tolerance: ${tolerance}）`);
+    } catch (error) {
+      // 新しい検索で中断された場合は何もしない
+      if (isAbortError(error)) return;
+      console.error('Flood Fill error:', error);
+      setStatus('Flood Fill処理中にエラーが発生しました。');
+    } finally {
+      if (!signal?.aborted) setIsProcessing(false);
+    }
+  }, [fillColor, tolerance, hexToRgb, classifyColor, markerPosition, center]);
+
+  // drawMapTileの後にFlood Fillを行い、ピンを描画
+  const drawMapTileWithMarker = useCallback(async (ctx: CanvasRenderingContext2D, lat: number, lon: number, signal?: AbortSignal) => {
     await drawMapTile(ctx, lat, lon);
+    if (signal?.aborted) return;
     if (markerPosition) {
-      // markerPositionの緯度経度をcanvas座標に変換
-      // 地図中心lat/lon→canvas中心、ズーム18, 1タイル分表示前提
-      const zoom = 18;
-      const tileSize = 256;
-      const n = Math.pow(2, zoom);
-      const centerTileX = Math.floor((lon + 180) / 360 * n);
-      const centerTileY = Math.floor((1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * n);
+      // ピンで建物の色が隠れる前に塗りつぶす
+      await detectAndFloodFill(ctx, signal);
+      if (signal?.aborted) return;
+
+      // markerPositionの緯度経度をcanvas座標に変換（地図中心lat/lon→canvas中心）
       const [markerLat, markerLon] = markerPosition;
-      const markerTileX = Math.floor((markerLon + 180) / 360 * n);
-      const markerTileY = Math.floor((1 - Math.log(Math.tan(markerLat * Math.PI / 180) + 1 / Math.cos(markerLat * Math.PI / 180)) / Math.PI) / 2 * n);
-      // タイル内ピクセル座標
-      const markerPixelX = Math.floor(((markerLon + 180) / 360 * n - markerTileX) * tileSize);
-      const markerPixelY = Math.floor(((1 - Math.log(Math.tan(markerLat * Math.PI / 180) + 1 / Math.cos(markerLat * Math.PI / 180)) / Math.PI) / 2 * n - markerTileY) * tileSize);
-      // canvas中心からのオフセット
-      const dx = (markerTileX - centerTileX) * tileSize + (markerPixelX - tileSize / 2);
-      const dy = (markerTileY - centerTileY) * tileSize + (markerPixelY - tileSize / 2);
-      const x = ctx.canvas.width / 2 + dx;
-      const y = ctx.canvas.height / 2 + dy;
+      const [x, y] = lonLatToCanvasPixel(ctx.canvas, [lon, lat], [markerLon, markerLat]);
       // ピン描画
       ctx.save();
       ctx.beginPath();
@@ -381,62 +289,7 @@ const FloodFillTestPage: React.FC = () => {
       ctx.stroke();
       ctx.restore();
     }
-  }, [drawMapTile, markerPosition]);
-
-  // 地図タイルから建物色を検出してFlood Fill実行
-  const detectAndFloodFill = useCallback(async (lat: number, lon: number) => {
-    try {
-      setIsProcessing(true);
-      setStatus('地図タイルを分析中...');
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-      // ここで地図描画はしない（useEffectで描画される）
-      // 指定座標のピクセル色を取得
-      // center/markerPositionが更新された後にcanvasが描画されている前提
-      // markerPositionがnullの場合はcenterを使う
-      const [latToUse, lonToUse] = markerPosition || center;
-      // タイル座標計算（src/app/page.tsxと同じ方法）
-      const zoom = 19;
-      const tileSize = 256;
-      const n = Math.pow(2, zoom);
-      const tileX = Math.floor((lonToUse + 180) / 360 * n);
-      const tileY = Math.floor((1 - Math.log(Math.tan(latToUse * Math.PI / 180) + 1 / Math.cos(latToUse * Math.PI / 180)) / Math.PI) / 2 * n);
-      const pixelX = Math.floor(((lonToUse + 180) / 360 * n - tileX) * tileSize);
-      const pixelY = Math.floor(((1 - Math.log(Math.tan(latToUse * Math.PI / 180) + 1 / Math.cos(latToUse * Math.PI / 180)) / Math.PI) / 2 * n - tileY) * tileSize);
-      // 指定座標のピクセル色を取得
-      const imageData = ctx.getImageData(pixelX, pixelY, 1, 1);
-      const clickedColor = {
-        r: imageData.data[0],
-        g: imageData.data[1],
-        b: imageData.data[2],
-        a: imageData.data[3]
-      };
-      // 建物色かどうかを判定
-      const buildingType = isBuildingColor(clickedColor.r, clickedColor.g, clickedColor.b, tolerance);
-      if (buildingType === 'none') {
-        setStatus('指定された座標は建物ではありません。');
-        setIsProcessing(false);
-        return;
-      }
-      setStatus('建物を検出しました。Flood Fillを実行中...');
-      // 塗りつぶし色を取得
-      const fillColorRgb = hexToRgb(fillColor);
-      // 全体のピクセルデータを取得
-      const fullImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      // Flood Fillを実行
-      const processedPixels = floodFill(fullImageData, pixelX, pixelY, { r: 0, g: 0, b: 0, a: 0 }, fillColorRgb, tolerance);
-      // 結果をCanvasに反映
-      ctx.putImageData(fullImageData, 0, 0);
-      setIsProcessing(false);
-      setStatus(`建物を検出し、${processedPixels}ピクセルを塗りつぶしました（tolerance: ${tolerance}）`);
-    } catch (error) {
-      console.error('Flood Fill error:', error);
-      setStatus('Flood Fill処理中にエラーが発生しました。');
-      setIsProcessing(false);
-    }
-  }, [fillColor, tolerance, floodFill, hexToRgb, isBuildingColor, markerPosition, center]);
+  }, [drawMapTile, detectAndFloodFill, markerPosition]);
 
   // 住所検索とFlood Fill実行
   const handleSearch = useCallback(async () => {
@@ -455,6 +308,35 @@ const FloodFillTestPage: React.FC = () => {
     }
   }, [address, handleGeocode]);
 
+  // Canvasのクリック（タップ）位置にピンを置き、逆ジオコーディングした住所を入力欄に入れる
+  const handleCanvasClick = useCallback(async (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    // 表示サイズとCanvasの解像度の違いを補正してCanvas上の座標にする
+    const x = (e.clientX - rect.left) * canvas.width / rect.width;
+    const y = (e.clientY - rect.top) * canvas.height / rect.height;
+    const [originX, originY] = canvasOriginPixel(canvas, [center[1], center[0]]);
+    const [lon, lat] = pixelToLonLat([originX + x, originY + y], MAP_ZOOM);
+    // 地図の中心はそのままにピンだけを動かす（地図描画やFloodFillはuseEffectに任せる）
+    setMarkerPosition([lat, lon]);
+
+    reverseControllerRef.current?.abort();
+    const controller = new AbortController();
+    reverseControllerRef.current = controller;
+    try {
+      const response = await axios.get<ReverseGeocodeResponse>('/api/reverse-geocode', {
+        params: { lat, lon },
+        signal: controller.signal,
+      });
+      const [result] = response.data.results;
+      if (result) setAddress(result.address);
+    } catch (error) {
+      // 次のクリックで中断された場合は何もしない
+      if (controller.signal.aborted) return;
+      console.error('Reverse geocoding error:', error);
+    }
+  }, [center]);
+
   // キーボードイベントハンドラー
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
@@ -462,31 +344,27 @@ const FloodFillTestPage: React.FC = () => {
     }
   }, [handleSearch]);
 
-  // 初期描画
+  // Canvasサイズを設定
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Canvasサイズを設定
     canvas.width = 800;
     canvas.height = 600;
+  }, []);
 
-    // 初期地図を描画（非同期）
-    drawMapTileWithMarker(ctx, center[0], center[1]).catch(error => {
-      console.error('Error loading initial map:', error);
-    });
-  }, [drawMapTileWithMarker, center]);
-
-  // markerPositionやcenterが変化したときもcanvasを再描画
+  // markerPositionやcenterが変化したときにcanvasを再描画（前の描画・Flood Fillは中断する）
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const ctx = canvas.getContext('2d');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) return;
-    drawMapTileWithMarker(ctx, center[0], center[1]);
+
+    const controller = new AbortController();
+    drawMapTileWithMarker(ctx, center[0], center[1], controller.signal).catch(error => {
+      console.error('Error loading map:', error);
+    });
+    return () => controller.abort();
   }, [center, markerPosition, drawMapTileWithMarker]);
 
 
@@ -513,11 +391,9 @@ const FloodFillTestPage: React.FC = () => {
                     onKeyDown={handleKeyDown}
                     placeholder="住所を入力してください（例：東京都渋谷区）"
                     className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    disabled={isProcessing}
                   />
                   <button
                     onClick={handleSearch}
-                    disabled={isProcessing}
                     className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium rounded-lg transition-colors duration-200"
                   >
                     検索
@@ -529,7 +405,8 @@ const FloodFillTestPage: React.FC = () => {
               <div className="border-2 border-gray-300 rounded-lg overflow-hidden bg-white">
                 <canvas
                   ref={canvasRef}
-                  className="w-full h-auto"
+                  onClick={handleCanvasClick}
+                  className="w-full h-auto cursor-crosshair"
                   style={{ maxHeight: '600px' }}
                   tabIndex={0}
                   aria-label="地図表示エリア"
@@ -558,15 +435,34 @@ const FloodFillTestPage: React.FC = () => {
                   />
                 </div>
 
+                {/* 背景地図の選択 */}
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    背景地図
+                  </label>
+                  <select
+                    value={paletteStyle}
+                    onChange={(e) => {
+                      if (isPaletteStyle(e.target.value)) setPaletteStyle(e.target.value);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                    disabled={isProcessing}
+                  >
+                    {Object.entries(PALETTES).map(([style, profile]) => (
+                      <option key={style} value={style}>{profile.label}</option>
+                    ))}
+                  </select>
+                </div>
+
                 {/* Tolerance設定 */}
                 <div className="mb-4">
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Tolerance: {tolerance}
+                    Tolerance（ΔE）: {tolerance}
                   </label>
                   <input
                     type="range"
                     min="0"
-                    max="100"
+                    max="50"
                     value={tolerance}
                     onChange={(e) => setTolerance(Number(e.target.value))}
                     className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
@@ -574,8 +470,8 @@ const FloodFillTestPage: React.FC = () => {
                   />
                   <div className="flex justify-between text-xs text-gray-500 mt-1">
                     <span>0</span>
+                    <span>25</span>
                     <span>50</span>
-                    <span>100</span>
                   </div>
                 </div>
 
@@ -648,8 +544,9 @@ const FloodFillTestPage: React.FC = () => {
                 </h3>
                                  <ul className="text-sm text-blue-600 space-y-1">
                    <li>• 住所を入力して検索</li>
+                   <li>• 地図をクリック（タップ）してピンを移動</li>
                    <li>• 指定座標が建物の場合、Flood Fill実行</li>
-                   <li>• Tolerance値を調整して建物判定の感度を制御</li>
+                   <li>• Tolerance値（色差ΔE）を調整して塗りつぶし範囲を制御</li>
                    <li>• 塗りつぶし色を変更して視覚効果を確認</li>
                  </ul>
               </div>
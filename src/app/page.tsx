@@ -1,12 +1,38 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import dynamic from 'next/dynamic';
 import axios from 'axios';
-import * as protobuf from 'protobufjs';
-
-// @ts-ignore: TensorFlow.js型定義
-declare module '@tensorflow/tfjs';
+import 'leaflet/dist/leaflet.css';
+
+import { excludeMatchedBuildings } from '@/lib/buildings/conflate';
+import {
+  runDetectionStrategy,
+  runDetector,
+  type BuildingDetector,
+  type DetectionMode,
+  type DetectionResult,
+  type DetectorInfo,
+  type DetectorReport,
+  type DetectorRun,
+} from '@/lib/buildings/detector';
+import type { BuildingLookupResult } from '@/lib/buildings/lookup';
+import { withBuildingMetrics } from '@/lib/buildings/metrics';
+import { DEFAULT_OVERPASS_RADIUS } from '@/lib/buildings/overpass';
+import { regularizeBuildings } from '@/lib/buildings/regularize';
+import { selectMarkerBuilding, type BuildingSelection } from '@/lib/buildings/select';
+import { BUILDING_SOURCES, type BuildingSource } from '@/lib/buildings/sources';
+import type { BuildingFeature, BuildingGeoJSON, BuildingMetrics } from '@/lib/buildings/types';
+import { addressFallbackQueries, parseJapaneseAddress } from '@/lib/geocoding/japanese-address';
+import type { GeocodeResponse, ReverseGeocodeResponse } from '@/lib/geocoding/provider';
+import { runRasterAnalysis } from '@/lib/raster/analysis-client';
+import type { ColorDetectionDebugInfo } from '@/lib/raster/color-detection';
+import {
+  SEGMENTATION_DETECTOR,
+  loadSegmentationModel,
+  type SegmentationModelStatus,
+} from '@/lib/raster/segmentation';
+import { DEFAULT_TILE_WINDOW, tileExtent, tilesInWindow, type TileWindow } from '@/lib/tiles/tile-range';
 
 // Leafletコンポーネントをdynamic import（ssr: false）で定義
 const MapContainer = dynamic(
@@ -32,55 +58,95 @@ const Popup = dynamic(
   { ssr: false }
 );
 
-
-// 型定義
-// Google Maps Geocoding APIの型定義
-interface GoogleGeocodingResponse {
-  results: Array<{
-    geometry: {
-      location: {
-        lat: number;
-        lng: number;
-      };
+// 地図のクリック（タップ）を受け取る（react-leaflet のフックは地図の中でしか使えないため、地図の子コンポーネントにする）
+const MapClickHandler = dynamic(
+  () => import('react-leaflet').then(mod => {
+    const ClickHandler = ({ onClick }: { onClick: (lat: number, lon: number) => void }) => {
+      mod.useMapEvents({ click: event => onClick(event.latlng.lat, event.latlng.lng) });
+      return null;
     };
-    formatted_address: string;
-  }>;
-  status: string;
-}
-
-interface OverpassResponse {
-  elements: Array<{
-    type: string;
-    id: number;
-    lat?: number;
-    lon?: number;
-    tags?: Record<string, string>;
-    geometry?: Array<{
-      lat: number;
-      lon: number;
-    }>;
-  }>;
-}
-
-interface BuildingFeature {
-  type: 'Feature';
-  geometry: {
-    type: 'Polygon';
-    coordinates: number[][][];
-  };
-  properties: {
-    id: number;
-    building?: string;
-    source?: string;
-  };
-}
+    return ClickHandler;
+  }),
+  { ssr: false }
+);
+
+
+// ブラウザ側で組み合わせる検出器（処理本体はコンポーネント内で定義する）
+const CLIENT_DETECTORS = {
+  // /api/buildings（サーバー側の検出戦略の結果）
+  server: {
+    label: 'サーバー',
+    capabilities: { kind: 'vector', environment: 'server', confidence: 0.9 },
+  },
+  // サーバーに問い合わせられない場合の色分析（ワーカーで実行）
+  'browser-color': {
+    label: '地図タイルの色分析（ブラウザ）',
+    capabilities: { kind: 'raster', environment: 'browser', confidence: BUILDING_SOURCES.color.capabilities.confidence },
+  },
+} as const satisfies Record<string, DetectorInfo>;
+
+const DETECTORS: Record<string, DetectorInfo> = {
+  ...BUILDING_SOURCES,
+  ...CLIENT_DETECTORS,
+  [SEGMENTATION_DETECTOR.name]: SEGMENTATION_DETECTOR,
+};
+
+// 検出器ごとの建物の表示色
+const DETECTOR_COLORS: Record<string, string> = {
+  osm: '#6b7280',
+  gsi: '#0891b2',
+  color: '#d97706',
+  'browser-color': '#d97706',
+  opencv: '#7c3aed',
+  segmentation: '#16a34a',
+};
+
+const detectorLabel = (name: string | undefined): string =>
+  name === undefined ? '不明' : DETECTORS[name]?.label ?? name;
+
+const DETECTION_MODE_LABELS: Record<DetectionMode, string> = {
+  'first-success': '順に試して最初に見つかった結果を使う',
+  conflate: 'すべて実行して統合する',
+};
+
+const DETECTOR_STATUS_LABELS: Record<DetectorReport['status'], string> = {
+  ok: '検出',
+  empty: 'なし',
+  error: '失敗',
+  skipped: '未実行',
+};
 
-interface BuildingGeoJSON {
-  type: 'FeatureCollection';
-  features: BuildingFeature[];
-}
+// 進み具合を表示する画像解析（色分析とセグメンテーションは並行して動く）
+type AnalysisRun = 'color' | 'segmentation';
 
+// 配列の要素を from の位置から to の位置へ移す
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
 
+// 建物の寸法の表示（画像から検出した建物は推定誤差を併記）
+const BuildingMetricsSummary = ({ metrics }: { metrics: BuildingMetrics }) => {
+  const error = metrics.error;
+  const withError = (value: number, margin: number | undefined, digits: number) =>
+    margin === undefined ? value.toFixed(digits) : `${value.toFixed(digits)} ±${margin.toFixed(digits)}`;
+
+  return (
+    <div className="mt-1 border-t border-gray-200 pt-1">
+      <div>面積: {withError(metrics.area, error?.area, 1)} m²</div>
+      <div>周長: {withError(metrics.perimeter, error?.perimeter, 1)} m</div>
+      <div>
+        最長辺: {withError(metrics.longestSide.length, error?.length, 1)} m（方位 {metrics.longestSide.bearing.toFixed(0)}°）
+      </div>
+      <div className="text-xs text-gray-600">
+        重心: {metrics.centroid[1].toFixed(6)}, {metrics.centroid[0].toFixed(6)}
+        {error && `（±${error.position.toFixed(1)} m）`}
+      </div>
+    </div>
+  );
+};
 
 // メインコンポーネント
 const BuildingMapApp = () => {
@@ -93,340 +159,92 @@ const BuildingMapApp = () => {
   const [mapKey, setMapKey] = useState(0);
   const [markerPosition, setMarkerPosition] = useState<[number, number] | null>(null);
   const [markerBuilding, setMarkerBuilding] = useState<BuildingGeoJSON | null>(null);
-  const [tfjsLoaded, setTfjsLoaded] = useState(false);
-  const [debugInfo, setDebugInfo] = useState<{
-    pixelColor: string;
-    buildingPixels: number;
-    boundaryPixels: number;
-    tileUrl: string;
-    markerPosition: string;
-    nearbyBuildingPixels: number;
-    clustersGenerated: number;
-    tileCoordinates: string;
-    originalCoordinates: string;
-  } | null>(null);
-
-  // 建物色の定義
-  const BUILDING_COLORS = {
-    // 建物本体の色
-    building: [
-      { r: 255, g: 230, b: 190 }, // #FFE6BE
-      { r: 254, g: 229, b: 189 }, // 少しの誤差を許容
-      { r: 255, g: 231, b: 191 },
-    ],
-    // 建物境界線の色
-    boundary: [
-      { r: 255, g: 178, b: 128 }, // #FFB280
-      { r: 255, g: 212, b: 169 }, // #FFD4A9
-      { r: 255, g: 135, b: 75 },  // #FF874B
-    ]
-  };
-
-  // 色の類似度を計算
-  const colorSimilarity = (color1: { r: number, g: number, b: number }, color2: { r: number, g: number, b: number }) => {
-    const diff = Math.abs(color1.r - color2.r) +
-      Math.abs(color1.g - color2.g) +
-      Math.abs(color1.b - color2.b);
-    return diff;
-  };
-
-  // 建物色かどうかを判定
-  const isBuildingColor = (r: number, g: number, b: number, tolerance: number = 50) => {
-    const color = { r, g, b };
-
-    // 建物本体の色かチェック
-    for (const buildingColor of BUILDING_COLORS.building) {
-      if (colorSimilarity(color, buildingColor) <= tolerance) {
-        return 'building';
-      }
-    }
-
-    // 建物境界線の色かチェック
-    for (const boundaryColor of BUILDING_COLORS.boundary) {
-      if (colorSimilarity(color, boundaryColor) <= tolerance) {
-        return 'boundary';
-      }
-    }
-
-    return 'none';
-  };
-
-  // ピクセルをクラスタリング
-  const clusterPixels = (pixels: Array<[number, number]>, maxDistance: number): Array<Array<[number, number]>> => {
-    const clusters: Array<Array<[number, number]>> = [];
-    const visited = new Set<string>();
-
-    for (const pixel of pixels) {
-      const key = `${pixel[0]},${pixel[1]}`;
-      if (visited.has(key)) continue;
-
-      const cluster: Array<[number, number]> = [];
-      const queue = [pixel];
-
-      while (queue.length > 0) {
-        const current = queue.shift()!;
-        const currentKey = `${current[0]},${current[1]}`;
-
-        if (visited.has(currentKey)) continue;
-        visited.add(currentKey);
-        cluster.push(current);
-
-        // 近隣ピクセルを探索
-        for (const neighbor of pixels) {
-          const neighborKey = `${neighbor[0]},${neighbor[1]}`;
-          if (visited.has(neighborKey)) continue;
-
-          const distance = Math.sqrt((current[0] - neighbor[0]) ** 2 + (current[1] - neighbor[1]) ** 2);
-          if (distance <= maxDistance) {
-            queue.push(neighbor);
-          }
-        }
+  const [buildingSelection, setBuildingSelection] = useState<BuildingSelection | null>(null);
+  const [segmentationStatus, setSegmentationStatus] = useState<SegmentationModelStatus>('loading');
+  // 航空写真のセグメンテーションで建物を推定するか
+  const [useSegmentation, setUseSegmentation] = useState(false);
+  const [debugInfo, setDebugInfo] = useState<ColorDetectionDebugInfo | null>(null);
+  // 画像解析の進み具合（並行して動く解析ごとに持つ）
+  const [detectionProgress, setDetectionProgress] = useState<Partial<Record<AnalysisRun, number>>>({});
+  // 画像から検出した建物の輪郭を直角に整形するか
+  const [regularize, setRegularize] = useState(false);
+  // サーバー側の検出戦略（取得元の順序と有効・無効）
+  const [detectionMode, setDetectionMode] = useState<DetectionMode>('conflate');
+  const [detectorSettings, setDetectorSettings] = useState<Array<{ name: BuildingSource; enabled: boolean }>>([
+    { name: 'osm', enabled: true },
+    { name: 'gsi', enabled: true },
+    { name: 'color', enabled: true },
+    { name: 'opencv', enabled: false },
+  ]);
+  const [detectorReports, setDetectorReports] = useState<DetectorReport[]>([]);
+  const searchControllerRef = useRef<AbortController | null>(null);
+
+  // 解析の進み具合を更新する（ratio が null なら完了。中断された解析は新しい検索の表示を書き換えない）
+  const updateDetectionProgress = (run: AnalysisRun, ratio: number | null, signal?: AbortSignal) => {
+    if (signal?.aborted) return;
+    setDetectionProgress(prev => {
+      const next = { ...prev };
+      if (ratio === null) {
+        delete next[run];
+      } else {
+        next[run] = ratio;
       }
-
-      if (cluster.length > 0) {
-        clusters.push(cluster);
-      }
-    }
-
-    return clusters;
-  };
-
-  // 境界を計算
-  const calculateBounds = (pixels: Array<[number, number]>) => {
-    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-
-    for (const [x, y] of pixels) {
-      minX = Math.min(minX, x);
-      minY = Math.min(minY, y);
-      maxX = Math.max(maxX, x);
-      maxY = Math.max(maxY, y);
-    }
-
-    return { minX, minY, maxX, maxY };
-  };
-
-  // 境界からポリゴンを生成
-  const boundsToPolygon = (bounds: { minX: number, minY: number, maxX: number, maxY: number }): Array<[number, number]> => {
-    return [
-      [bounds.minX, bounds.minY],
-      [bounds.maxX, bounds.minY],
-      [bounds.maxX, bounds.maxY],
-      [bounds.minX, bounds.maxY],
-      [bounds.minX, bounds.minY] // 閉じる
-    ];
+      return next;
+    });
   };
 
-  // 地図タイルの色分析による建物検出
-  const detectBuildingsByColor = async (lat: number, lon: number): Promise<BuildingGeoJSON | null> => {
+  // 地図タイルの色分析による建物検出（画像解析はワーカーで行う）
+  const detectBuildingsByColor = async (
+    lat: number,
+    lon: number,
+    tileWindow: TileWindow = DEFAULT_TILE_WINDOW,
+    signal?: AbortSignal
+  ): Promise<BuildingFeature[]> => {
     try {
       console.log('Starting color-based building detection...');
 
-      // タイル座標計算（修正版）
+      // 対象範囲のタイルを列挙
       const zoom = 18;
-      const n = Math.pow(2, zoom);
-      const tileX = Math.floor((lon + 180) / 360 * n);
-      const tileY = Math.floor((1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * n);
-      const tileUrl = `https://cyberjapandata.gsi.go.jp/xyz/std/${zoom}/${tileX}/${tileY}.png`;
-
-      console.log('Tile coordinates:', { tileX, tileY, zoom, n });
-      console.log('Fetching tile:', tileUrl);
-
-      // 画像取得
-      const response = await axios.get(tileUrl, { responseType: 'arraybuffer' });
-      const blob = new Blob([response.data]);
-      const img = new window.Image();
-      const url = URL.createObjectURL(blob);
-
-      // 画像ロードPromise
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
-        img.src = url;
-      });
-
-      console.log('Image loaded, analyzing colors...');
-
-      // Canvasへ描画
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      ctx?.drawImage(img, 0, 0);
-
-      // ピクセルデータを取得
-      const imageData = ctx?.getImageData(0, 0, canvas.width, canvas.height);
-      if (!imageData) {
-        console.error('Failed to get image data');
-        return null;
-      }
-
-      // 建物ピクセルを検出
-      const buildingPixels: Array<[number, number]> = [];
-      const boundaryPixels: Array<[number, number]> = [];
-
-      for (let y = 0; y < imageData.height; y++) {
-        for (let x = 0; x < imageData.width; x++) {
-          const index = (y * imageData.width + x) * 4;
-          const r = imageData.data[index];
-          const g = imageData.data[index + 1];
-          const b = imageData.data[index + 2];
-
-          const colorType = isBuildingColor(r, g, b);
-          if (colorType === 'building') {
-            buildingPixels.push([x, y]);
-          } else if (colorType === 'boundary') {
-            boundaryPixels.push([x, y]);
-          }
+      const tiles = tilesInWindow(lat, lon, zoom, tileWindow);
+      const extent = tileExtent(tiles);
+      const tileUrl = `https://cyberjapandata.gsi.go.jp/xyz/std/${zoom}/{x}/{y}.png`;
+
+      console.log('Tile range:', { ...extent, zoom, count: tiles.length });
+
+      // タイル画像をImageBitmapにデコード（タイル境界をまたぐ建物もワーカー側で1枚のモザイクとして扱う）
+      const bitmaps = await Promise.all(tiles.map(async (tile) => {
+        const url = tileUrl.replace('{x}', String(tile.x)).replace('{y}', String(tile.y));
+        console.log('Fetching tile:', url);
+
+        try {
+          const response = await axios.get(url, { responseType: 'blob', signal });
+          return { x: tile.x, y: tile.y, bitmap: await createImageBitmap(response.data) };
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          // 1枚欠けても他のタイルで検出を続ける
+          console.warn(`Failed to load tile: ${url}`, error);
+          return null;
         }
-      }
-
-      console.log(`Found ${buildingPixels.length} building pixels, ${boundaryPixels.length} boundary pixels`);
+      }));
+      const loaded = bitmaps.filter((tile): tile is NonNullable<typeof tile> => tile !== null);
 
-      // ピン位置のピクセル座標（修正版）
-      const pixelX = Math.floor(((lon + 180) / 360 * n - tileX) * 256);
-      const pixelY = Math.floor(((1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * n - tileY) * 256);
+      console.log('Tiles loaded, analyzing colors...');
 
-      console.log('Marker pixel position:', pixelX, pixelY);
-
-      // ピクセル座標の範囲チェック
-      if (pixelX < 0 || pixelX >= imageData.width || pixelY < 0 || pixelY >= imageData.height) {
-        console.error('Marker pixel position out of bounds:', { pixelX, pixelY, width: imageData.width, height: imageData.height });
-        return null;
-      }
-
-      // ピン位置の色を取得
-      const markerIndex = (pixelY * imageData.width + pixelX) * 4;
-      const markerR = imageData.data[markerIndex];
-      const markerG = imageData.data[markerIndex + 1];
-      const markerB = imageData.data[markerIndex + 2];
-      const markerColor = `#${markerR.toString(16).padStart(2, '0')}${markerG.toString(16).padStart(2, '0')}${markerB.toString(16).padStart(2, '0')}`;
-
-      console.log('Marker pixel color:', markerColor, `RGB(${markerR}, ${markerG}, ${markerB})`);
+      // 色分析で建物ポリゴンを検出（ImageBitmapはワーカーへ転送する）
+      const { buildings: detected, debug } = await runRasterAnalysis(
+        { type: 'detect-buildings', tiles: loaded, extent, zoom, lat, lon, tileUrl, palette: 'std' },
+        loaded.map(tile => tile.bitmap),
+        { signal, onProgress: (_stage, ratio) => updateDetectionProgress('color', ratio, signal) }
+      );
 
       // デバッグ情報を設定
-      setDebugInfo({
-        pixelColor: markerColor,
-        buildingPixels: buildingPixels.length,
-        boundaryPixels: boundaryPixels.length,
-        tileUrl: tileUrl,
-        markerPosition: `${pixelX}, ${pixelY}`,
-        nearbyBuildingPixels: 0, // 後で更新
-        clustersGenerated: 0, // 後で更新
-        tileCoordinates: `${tileX}, ${tileY}`,
-        originalCoordinates: `${lat.toFixed(6)}, ${lon.toFixed(6)}`
-      });
-
-      // ピン位置周辺の建物領域を検出（検索範囲を拡大）
-      const markerRadius = 30; // ピクセル単位（狭める）
-      const nearbyBuildingPixels = buildingPixels.filter(([x, y]) => {
-        const distance = Math.sqrt((x - pixelX) ** 2 + (y - pixelY) ** 2);
-        return distance <= markerRadius;
-      });
-
-      console.log(`Found ${nearbyBuildingPixels.length} building pixels within ${markerRadius}px of marker`);
+      setDebugInfo(debug);
 
-      // デバッグ情報を更新
-      setDebugInfo(prev => prev ? {
-        ...prev,
-        nearbyBuildingPixels: nearbyBuildingPixels.length
-      } : null);
-
-      if (nearbyBuildingPixels.length === 0) {
-        console.log('No building pixels found near marker');
-        return null;
-      }
-
-      // 建物ピクセルをクラスタリングしてポリゴン生成（距離を調整）
-      const clusters = clusterPixels(nearbyBuildingPixels, 3); // 3ピクセル以内を同じクラスタ
-
-      console.log(`Generated ${clusters.length} clusters from nearby building pixels`);
-
-      // デバッグ情報を更新
-      setDebugInfo(prev => prev ? {
-        ...prev,
-        clustersGenerated: clusters.length
-      } : null);
-
-      // 各クラスタからポリゴンを生成
-      const polygons: number[][][] = [];
-
-      for (const cluster of clusters) {
-        if (cluster.length < 5) continue; // 最小クラスタサイズを5に変更
-
-        // クラスタの境界を計算
-        const bounds = calculateBounds(cluster);
-        const polygon = boundsToPolygon(bounds);
-
-        // 地理座標に変換（修正版）
-        const geoPolygon = polygon.map(([x, y]) => {
-          // ピクセル座標から地理座標への正しい変換
-          const pixelLon = (tileX * 256 + x) / (n * 256) * 360 - 180;
-          const pixelLat = (180 / Math.PI) * Math.atan(Math.sinh(Math.PI * (1 - 2 * (tileY * 256 + y) / (n * 256))));
-
-          // デバッグ: 座標変換の詳細を確認
-          console.log(`Pixel (${x}, ${y}) -> Geo (${pixelLon.toFixed(6)}, ${pixelLat.toFixed(6)})`);
-
-          return [pixelLon, pixelLat];
-        });
-
-        // デバッグ: 元のピクセル座標と変換後の地理座標を比較
-        console.log('Original pixel bounds:', bounds);
-        console.log('Converted geo bounds:', {
-          minLon: Math.min(...geoPolygon.map(p => p[0])),
-          maxLon: Math.max(...geoPolygon.map(p => p[0])),
-          minLat: Math.min(...geoPolygon.map(p => p[1])),
-          maxLat: Math.max(...geoPolygon.map(p => p[1]))
-        });
-
-        polygons.push(geoPolygon);
-      }
-
-      console.log(`Generated ${polygons.length} building polygons`);
-
-      // デバッグ: 最初のポリゴンの座標を確認
-      if (polygons.length > 0) {
-        console.log('First polygon coordinates:', polygons[0]);
-        console.log('First polygon bounds:', {
-          minLon: Math.min(...polygons[0].map(p => p[0])),
-          maxLon: Math.max(...polygons[0].map(p => p[0])),
-          minLat: Math.min(...polygons[0].map(p => p[1])),
-          maxLat: Math.max(...polygons[0].map(p => p[1]))
-        });
-      }
-
-      // GeoJSON返却
-      return {
-        type: 'FeatureCollection',
-        features: polygons.map((coordinates, index) => ({
-          type: 'Feature' as const,
-          geometry: { type: 'Polygon' as const, coordinates: [coordinates] },
-          properties: {
-            id: index + 1,
-            building: 'color_detected',
-            source: 'color_analysis',
-            pixelCount: clusters[index]?.length || 0
-          }
-        }))
-      };
-
-    } catch (error) {
-      console.error('Color-based building detection error:', error);
-      return null;
-    }
-  };
-
-  // TensorFlow.jsを動的に読み込む関数
-  const loadTensorFlow = async (): Promise<void> => {
-    if (typeof window === 'undefined') return;
-
-    try {
-      console.log('Loading TensorFlow.js...');
-      const tf = await import('@tensorflow/tfjs') as any;
-      await tf.ready();
-      console.log('TensorFlow.js loaded successfully');
-      setTfjsLoaded(true);
-    } catch (error) {
-      console.error('TensorFlow.js loading error:', error);
+      if (!detected) return [];
+      const features = regularize ? regularizeBuildings(detected.features) : detected.features;
+      return withBuildingMetrics(features);
+    } finally {
+      updateDetectionProgress('color', null, signal);
     }
   };
 
@@ -445,197 +263,465 @@ const BuildingMapApp = () => {
       });
     });
 
-    // TensorFlow.jsを動的に読み込み
-    loadTensorFlow();
+    // 航空写真のセグメンテーションモデルを読み込み（public/models にない場合は使えない）
+    loadSegmentationModel().then(model => setSegmentationStatus(model ? 'ready' : 'unavailable'));
   }, []);
 
-  // 住所から緯度経度を取得
-  const handleGeocode = async (searchAddress: string): Promise<[number, number] | null> => {
+  // 住所から緯度経度を取得（新しい検索で中断されたら、残りの段階は問い合わせない）
+  const handleGeocode = async (searchAddress: string, signal?: AbortSignal): Promise<[number, number] | null> => {
     try {
-      console.log('Geocoding address:', searchAddress);
+      // 住所を正規化して構成要素に分け、見つからなければ号 → 番 → 丁目 → 町 → 市区町村 → 都道府県と1段ずつ粗くして試す
+      const parsed = parseJapaneseAddress(searchAddress);
 
-      // 複数の検索パターンを試す
-      const searchPatterns = [
-        searchAddress,
-        searchAddress.replace(/[0-9-]/g, '').trim(), // 数字とハイフンを除去
-        searchAddress.split(' ').slice(0, 3).join(' '), // 最初の3つの部分のみ
-        searchAddress.split('区')[0] + '区', // 区まで
-        searchAddress.split('市')[0] + '市' // 市まで
-      ];
+      for (const { query } of addressFallbackQueries(parsed, searchAddress)) {
+        if (signal?.aborted) return null;
 
-      for (const pattern of searchPatterns) {
-        if (!pattern.trim()) continue;
+        // 住所検索はサーバー側で行う（検索先の順序やAPIキーはサーバーの設定）
+        const response = await axios.get<GeocodeResponse>('/api/geocode', { params: { q: query }, signal });
 
-        console.log('Trying pattern:', pattern);
-
-        const response = await axios.get<GoogleGeocodingResponse>(
-          `https://maps.googleapis.com/maps/api/geocode/json`,
-          {
-            params: {
-              address: pattern,
-              key: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || 'YOUR_API_KEY' // 環境変数からAPIキーを取得
-            }
-          }
-        );
-
-        console.log('Google Maps Geocoding response for pattern:', pattern, response.data);
-
-        if (response.data.status === 'OK' && response.data.results.length > 0) {
-          const result = response.data.results[0];
-          const { lat, lng } = result.geometry.location;
-          console.log('Found coordinates:', lat, lng, 'for:', result.formatted_address);
-          return [lat, lng];
-        }
-      }
-
-      console.log('No results found for any pattern');
-
-      // フォールバック: 有名な場所の座標を使用
-      const fallbackCoordinates: Record<string, [number, number]> = {
-        '渋谷': [35.658034, 139.701636],
-        '新宿': [35.689521, 139.691704],
-        '池袋': [35.729503, 139.710900],
-        '東京': [35.6762, 139.6503],
-        '銀座': [35.671946, 139.763965],
-        '秋葉原': [35.698683, 139.774219],
-        '原宿': [35.670168, 139.701636],
-        '表参道': [35.665428, 139.712160]
-      };
-
-      // 入力された住所に含まれるキーワードでフォールバック座標を探す
-      for (const [keyword, coords] of Object.entries(fallbackCoordinates)) {
-        if (searchAddress.includes(keyword)) {
-          console.log('Using fallback coordinates for:', keyword, coords);
-          return coords;
-        }
+        const [result] = response.data.results;
+        if (result) return [result.lat, result.lon];
       }
 
       return null;
     } catch (error) {
-      console.error('Geocoding error:', error);
+      if (!signal?.aborted) console.error('Geocoding error:', error);
       return null;
     }
   };
 
-  // 国土地理院の建物データを取得
-  const fetchGSIBuildings = async (lat: number, lon: number): Promise<BuildingGeoJSON | null> => {
+  // 航空写真のセグメンテーションによる建物の推定（地図にまだ載っていない建物を探す）
+  const segmentBuildings = async (lat: number, lon: number, signal?: AbortSignal): Promise<DetectorRun> => {
     try {
-      console.log('Fetching GSI building data for:', lat, lon);
+      return await runDetector(SEGMENTATION_DETECTOR, lat, lon, {
+        signal,
+        onProgress: ratio => updateDetectionProgress('segmentation', ratio, signal),
+        transform: features => withBuildingMetrics(regularize ? regularizeBuildings(features) : features),
+      });
+    } finally {
+      updateDetectionProgress('segmentation', null, signal);
+    }
+  };
 
-      // 国土地理院の建物データAPI（ベクトルタイル）
-      const zoom = 18;
-      const tileX = Math.floor((lon + 180) / 360 * Math.pow(2, zoom));
-      const tileY = Math.floor((1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * Math.pow(2, zoom));
+  // 建物ポリゴンを取得
+  // サーバー（/api/buildings、画面で選んだ取得元と戦略）で見つからない・問い合わせられない場合は、ブラウザ側の色分析を試す
+  // （色分析を有効にしている場合だけ）
+  const fetchBuildings = async (lat: number, lon: number, signal?: AbortSignal): Promise<DetectionResult> => {
+    const order = detectorSettings.filter(setting => setting.enabled).map(setting => setting.name);
+    let serverReports: DetectorReport[] = [];
+
+    const detectors: Record<keyof typeof CLIENT_DETECTORS, BuildingDetector> = {
+      server: {
+        name: 'server',
+        ...CLIENT_DETECTORS.server,
+        detect: async (lat, lon, { signal }) => {
+          if (order.length === 0) return [];
+
+          const response = await axios.get<BuildingLookupResult>('/api/buildings', {
+            params: {
+              lat,
+              lon,
+              radius: DEFAULT_OVERPASS_RADIUS,
+              sources: order.join(','),
+              strategy: detectionMode,
+              regularize,
+            },
+            timeout: 60000,
+            signal
+          });
+
+          serverReports = response.data.detectors;
+          return response.data.features;
+        },
+      },
+      'browser-color': {
+        name: 'browser-color',
+        ...CLIENT_DETECTORS['browser-color'],
+        detect: (lat, lon, { tileWindow, signal }) => detectBuildingsByColor(lat, lon, tileWindow, signal),
+      },
+    };
 
-      // 国土地理院の建物データAPI（正しいエンドポイント）
-      const buildingUrl = `https://cyberjapandata.gsi.go.jp/xyz/building/${zoom}/${tileX}/${tileY}.pbf`;
+    // ブラウザ側の色分析は、画面で色分析を有効にしているときだけ試す
+    const clientOrder: Array<keyof typeof detectors> = order.includes('color') ? ['server', 'browser-color'] : ['server'];
+    const { features, reports } = await runDetectionStrategy(
+      detectors,
+      { mode: 'first-success', order: clientOrder },
+      lat,
+      lon,
+      { signal }
+    );
+
+    // サーバー側の取得元ごとの結果に置き換えて返す
+    return {
+      features,
+      reports: reports.flatMap(report => report.detector === 'server' && serverReports.length > 0 ? serverReports : [report]),
+    };
+  };
 
-      console.log('GSI building URL:', buildingUrl);
+  // 緯度経度から住所を求める（見つからなければ null）
+  const handleReverseGeocode = async (lat: number, lon: number, signal?: AbortSignal): Promise<string | null> => {
+    const response = await axios.get<ReverseGeocodeResponse>('/api/reverse-geocode', { params: { lat, lon }, signal });
+    return response.data.results[0]?.address ?? null;
+  };
 
-      // ベクトルタイルの取得（PBF形式）
-      const response = await axios.get(buildingUrl, {
-        responseType: 'arraybuffer',
-        timeout: 10000, // 10秒タイムアウト
-        validateStatus: (status) => status < 500 // 404も含めてエラーとして扱わない
-      });
+  // 前の検索の取得・画像解析を中断し、表示中の結果を消して新しい検索を始める
+  const startSearch = (): AbortController => {
+    searchControllerRef.current?.abort();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
+
+    setLoading(true);
+    setError('');
+    setBuildings(null);
+    setMarkerBuilding(null);
+    setBuildingSelection(null);
+    setDetectorReports([]);
+    setDetectionProgress({});
+    return controller;
+  };
 
-      // 404エラーの場合は建物データが存在しない
-      if (response.status === 404) {
-        console.log('GSI building data not available for this area');
-        return null;
-      }
+  const finishSearch = (controller: AbortController) => {
+    if (searchControllerRef.current === controller) {
+      searchControllerRef.current = null;
+      setLoading(false);
+    }
+  };
 
-      console.log('GSI building response received, status:', response.status);
-
-      // PBFファイルの解析（簡易版）
-      // 実際の実装では、protobufライブラリを使用してベクトルタイルを解析
-      // ここでは簡易的に建物データがあることを示すダミーデータを返す
-
-      return {
-        type: 'FeatureCollection',
-        features: [
-          {
-            type: 'Feature',
-            geometry: {
-              type: 'Polygon',
-              coordinates: [[
-                [lon - 0.001, lat - 0.001],
-                [lon + 0.001, lat - 0.001],
-                [lon + 0.001, lat + 0.001],
-                [lon - 0.001, lat + 0.001],
-                [lon - 0.001, lat - 0.001]
-              ]]
-            },
-            properties: {
-              id: 1,
-              building: 'gsi_building',
-              source: 'GSI'
-            }
-          }
-        ]
-      };
+  // 建物取得 → マーカー位置の建物を選択
+  const detectBuildingsAt = async (lat: number, lon: number, signal: AbortSignal) => {
+    const [fetched, segmented] = await Promise.all([
+      fetchBuildings(lat, lon, signal),
+      useSegmentation && segmentationStatus === 'ready' ? segmentBuildings(lat, lon, signal) : null,
+    ]);
+    if (signal.aborted) return;
+    setDetectorReports(segmented ? [...fetched.reports, segmented.report] : fetched.reports);
+
+    // 航空写真から推定した建物のうち、取得した建物と重ならないものだけを加える（IDは取得した建物の後に続ける）
+    const lastId = Math.max(0, ...fetched.features.map(feature => feature.properties.id));
+    const unmapped = segmented ? excludeMatchedBuildings(segmented.features, fetched.features) : [];
+    const features = [
+      ...fetched.features,
+      ...unmapped.map((feature, index) => ({
+        ...feature,
+        properties: { ...feature.properties, id: lastId + index + 1 },
+      })),
+    ];
+    const result: BuildingGeoJSON | null = features.length > 0 ? { type: 'FeatureCollection', features } : null;
+    setBuildings(result);
 
-    } catch (error) {
-      console.error('GSI building data error:', error);
-      return null;
+    // 取得した建物の中からマーカー位置の建物を1つに絞り込む
+    const selection = result ? selectMarkerBuilding(result.features, [lat, lon]) : null;
+    setBuildingSelection(selection);
+    setMarkerBuilding(selection ? { type: 'FeatureCollection', features: [selection.feature] } : null);
+
+    if (!selection) {
+      setError('指定された地点に建物が見つかりませんでした。');
     }
   };
 
-  // 建物ポリゴンを取得（Overpass API + 国土地理院）
-  const fetchBuildings = async (lat: number, lon: number): Promise<BuildingGeoJSON | null> => {
-    try {
-      const radius = 0.005; // 約500mに拡大
-      const query = `
-        [out:json][timeout:25];
-        (
-          way["building"](around:${radius},${lat},${lon});
-          relation["building"](around:${radius},${lat},${lon});
-        );
-        out body;
-        >;
-        out skel qt;
-      `;
-
-      // Overpass APIから建物データを取得
-      const response = await axios.get(`https://overpass-api.de/api/interpreter`, {
-        params: { data: query },
-        timeout: 30000
-      });
+  // 住所検索 → 建物取得 → マーカー位置の建物を選択
+  const handleSearch = async () => {
+    if (!address.trim()) {
+      setError('住所を入力してください。');
+      return;
+    }
 
-      if (response.data.elements && response.data.elements.length > 0) {
-        // 建物データをGeoJSON形式に変換
-        const features: BuildingFeature[] = response.data.elements
-          .filter((element: any) => element.type === 'way' && element.geometry)
-          .map((element: any, index: number) => ({
-            type: 'Feature',
-            geometry: {
-              type: 'Polygon',
-              coordinates: [element.geometry.map((point: any) => [point.lon, point.lat])]
-            },
-            properties: {
-              id: element.id,
-              building: element.tags?.building || 'unknown',
-              source: 'OpenStreetMap'
-            }
-          }));
-
-        return {
-          type: 'FeatureCollection',
-          features
-        };
+    const controller = startSearch();
+    const { signal } = controller;
+
+    try {
+      const coordinates = await handleGeocode(address, signal);
+      if (signal.aborted) return;
+      if (!coordinates) {
+        setError('住所が見つかりませんでした。');
+        return;
       }
 
-      // Overpass APIでデータが見つからない場合は、色分析による検出を試行
-      console.log('No OSM building data found, trying color-based detection...');
-      return await detectBuildingsByColor(lat, lon);
+      const [lat, lon] = coordinates;
+      setCenter([lat, lon]);
+      setMarkerPosition([lat, lon]);
+      setMapKey(prev => prev + 1);
 
+      await detectBuildingsAt(lat, lon, signal);
     } catch (error) {
-      console.error('Building fetch error:', error);
+      // 新しい検索で中断された場合は何もしない
+      if (signal.aborted) return;
+      console.error('Search error:', error);
+      setError('建物の検索中にエラーが発生しました。');
+    } finally {
+      finishSearch(controller);
+    }
+  };
 
-      // エラーが発生した場合は、色分析による検出を試行
-      console.log('Falling back to color-based detection...');
-      return await detectBuildingsByColor(lat, lon);
+  // 地図のクリック（タップ）地点にマーカーを置いて建物を検出し、逆ジオコーディングした住所を入力欄に入れる
+  // 地図の表示位置とズームはそのままにする
+  const handleMapClick = async (lat: number, lon: number) => {
+    const controller = startSearch();
+    const { signal } = controller;
+    setMarkerPosition([lat, lon]);
+
+    try {
+      await Promise.all([
+        handleReverseGeocode(lat, lon, signal)
+          .then(found => {
+            if (found && !signal.aborted) setAddress(found);
+          })
+          // 住所が分からなくても建物の検出は続ける
+          .catch(error => {
+            if (!signal.aborted) console.error('Reverse geocoding error:', error);
+          }),
+        detectBuildingsAt(lat, lon, signal),
+      ]);
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error('Search error:', error);
+      setError('建物の検索中にエラーが発生しました。');
+    } finally {
+      finishSearch(controller);
+    }
+  };
+
+  // 実行中の解析の進み具合の平均（解析していなければ null）
+  const progressValues = Object.values(detectionProgress);
+  const overallProgress = progressValues.length > 0
+    ? progressValues.reduce((sum, ratio) => sum + ratio, 0) / progressValues.length
+    : null;
+
+  // キーボードイベントハンドラー
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSearch();
     }
   };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-3xl font-bold text-gray-800 mb-8 text-center">
+          🏢 建物マップ
+        </h1>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          {/* 住所検索エリア */}
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="住所を入力してください（例：東京都渋谷区道玄坂2-24-1）"
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="住所"
+            />
+            <button
+              onClick={handleSearch}
+              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium rounded-lg transition-colors duration-200"
+              aria-label="住所を検索"
+            >
+              {loading
+                ? overallProgress === null ? '検索中...' : `解析中 ${Math.round(overallProgress * 100)}%`
+                : '検索'}
+            </button>
+          </div>
+
+          <label className="mb-4 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={regularize}
+              onChange={(e) => setRegularize(e.target.checked)}
+            />
+            色分析で検出した建物の輪郭を直角に補正する
+          </label>
+          {/* サーバー側の検出戦略（取得元の順序は上下のボタンで入れ替える） */}
+          <fieldset className="mb-4 text-sm text-gray-700">
+            <legend className="mb-1 font-medium">建物の検出</legend>
+            <select
+              value={detectionMode}
+              onChange={(e) => setDetectionMode(e.target.value as DetectionMode)}
+              className="mb-2 px-2 py-1 border border-gray-300 rounded"
+              aria-label="検出戦略"
+            >
+              {(Object.keys(DETECTION_MODE_LABELS) as DetectionMode[]).map(mode => (
+                <option key={mode} value={mode}>{DETECTION_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <ol className="flex flex-wrap gap-2">
+              {detectorSettings.map((setting, index) => (
+                <li key={setting.name} className="flex items-center gap-1 border border-gray-200 rounded px-2 py-1">
+                  <span className="text-gray-500">{index + 1}.</span>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={setting.enabled}
+                      onChange={(e) => setDetectorSettings(settings => settings.map(current =>
+                        current.name === setting.name ? { ...current, enabled: e.target.checked } : current
+                      ))}
+                    />
+                    <span style={{ color: DETECTOR_COLORS[setting.name] }}>■</span>
+                    {BUILDING_SOURCES[setting.name].label}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setDetectorSettings(settings => moveItem(settings, index, index - 1))}
+                    disabled={index === 0}
+                    className="px-1 text-gray-500 disabled:text-gray-300"
+                    aria-label={`${BUILDING_SOURCES[setting.name].label}を前へ`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDetectorSettings(settings => moveItem(settings, index, index + 1))}
+                    disabled={index === detectorSettings.length - 1}
+                    className="px-1 text-gray-500 disabled:text-gray-300"
+                    aria-label={`${BUILDING_SOURCES[setting.name].label}を後へ`}
+                  >
+                    ↓
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </fieldset>
+          <label className="mb-4 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={useSegmentation}
+              onChange={(e) => setUseSegmentation(e.target.checked)}
+              disabled={segmentationStatus !== 'ready'}
+            />
+            航空写真から建物を推定する（TensorFlow.js）
+            {segmentationStatus === 'loading' && <span className="text-gray-500">モデル読み込み中...</span>}
+            {segmentationStatus === 'unavailable' && <span className="text-gray-500">モデルが見つかりません（public/models）</span>}
+          </label>
+
+          {error && (
+            <p className="mb-4 text-sm text-red-600" role="alert">{error}</p>
+          )}
+
+          <p className="mb-2 text-xs text-gray-500">
+            地図をクリック（タップ）すると、その地点にピンを置いて建物を検出し、住所を入力欄に表示します。
+          </p>
+
+          {/* 地図表示エリア */}
+          <div className="h-[600px] border-2 border-gray-300 rounded-lg overflow-hidden">
+            {isClient && (
+              <MapContainer key={mapKey} center={center} zoom={18} className="h-full w-full">
+                <TileLayer
+                  url="https://cyberjapandata.gsi.go.jp/xyz/std/{z}/{x}/{y}.png"
+                  attribution='<a href="https://maps.gsi.go.jp/development/ichiran.html">国土地理院</a>'
+                  maxZoom={18}
+                />
+                <MapClickHandler onClick={handleMapClick} />
+                {buildings && (
+                  <GeoJSON
+                    key={`buildings-${mapKey}`}
+                    data={buildings}
+                    style={(feature) => ({
+                      color: DETECTOR_COLORS[feature?.properties.detector ?? ''] ?? '#6b7280',
+                      weight: 1,
+                      fillOpacity: 0.1,
+                      // 画像から推定した建物は破線
+                      dashArray: feature && DETECTORS[feature.properties.detector ?? '']?.capabilities.kind === 'raster'
+                        ? '3 3'
+                        : undefined,
+                    })}
+                  />
+                )}
+                {/* 直角補正前の輪郭（比較用） */}
+                {markerBuilding?.features[0].properties.regularization && (
+                  <GeoJSON
+                    key={`marker-building-original-${mapKey}`}
+                    data={markerBuilding.features[0].properties.regularization.originalGeometry}
+                    style={{ color: '#2563eb', weight: 2, dashArray: '4 4', fill: false }}
+                  />
+                )}
+                {markerBuilding && (
+                  <GeoJSON
+                    key={`marker-building-${mapKey}`}
+                    data={markerBuilding}
+                    style={{ color: '#e11d48', weight: 3, fillOpacity: 0.4 }}
+                  />
+                )}
+                {markerPosition && (
+                  <Marker position={markerPosition}>
+                    <Popup>
+                      <div className="text-sm">
+                        <div>{address}</div>
+                        {buildingSelection && (
+                          <>
+                            <div>建物ID: {buildingSelection.feature.properties.id}</div>
+                            <div>種別: {buildingSelection.feature.properties.building}</div>
+                            <div>出典: {buildingSelection.feature.properties.source}</div>
+                            <div>検出器: {detectorLabel(buildingSelection.feature.properties.detector)}</div>
+                            {buildingSelection.feature.properties.confidence !== undefined && (
+                              <div>確信度: {Math.round(buildingSelection.feature.properties.confidence * 100)}%</div>
+                            )}
+                            <div>
+                              判定: {buildingSelection.match === 'contains' ? '地点を含む建物' : `最寄りの建物（${buildingSelection.distance.toFixed(1)}m）`}
+                            </div>
+                            <div>一致度: {Math.round(buildingSelection.confidence * 100)}%</div>
+                            {buildingSelection.feature.properties.regularization && (
+                              <div>
+                                直角補正: 主方向 {buildingSelection.feature.properties.regularization.orientation.toFixed(1)}°（破線は補正前）
+                              </div>
+                            )}
+                            {buildingSelection.feature.properties.metrics && (
+                              <BuildingMetricsSummary metrics={buildingSelection.feature.properties.metrics} />
+                            )}
+                            {buildingSelection.feature.properties.provenance && (
+                              <div className="mt-1 border-t border-gray-200 pt-1">
+                                <div>
+                                  一致した取得元: {buildingSelection.feature.properties.provenance.sources.map(detectorLabel).join(', ')}
+                                </div>
+                                {buildingSelection.feature.properties.provenance.matches.map(match => (
+                                  <div key={`${match.source}-${match.id}`} className="text-xs text-gray-600">
+                                    {detectorLabel(match.source)} #{match.id}: IoU {match.iou.toFixed(2)}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </Popup>
+                  </Marker>
+                )}
+              </MapContainer>
+            )}
+          </div>
+
+          {/* 検出器ごとの結果（地図上の建物の色の凡例を兼ねる） */}
+          {detectorReports.length > 0 && (
+            <div className="mt-4 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+              {detectorReports.map(report => (
+                <div key={report.detector}>
+                  <span style={{ color: DETECTOR_COLORS[report.detector] ?? '#6b7280' }}>■</span>{' '}
+                  {detectorLabel(report.detector)}: {DETECTOR_STATUS_LABELS[report.status]}
+                  {report.status !== 'skipped' && `（${report.featureCount}件、${report.durationMs}ms`}
+                  {report.confidence !== null && `、確信度 ${Math.round(report.confidence * 100)}%`}
+                  {report.status !== 'skipped' && '）'}
+                  {report.error && <span className="text-red-600"> {report.error}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* デバッグ情報（色分析による検出時） */}
+          {debugInfo && (
+            <div className="mt-4 bg-gray-50 rounded-lg p-4 text-xs text-gray-600 grid grid-cols-2 gap-1">
+              <div>ピン位置の色: {debugInfo.pixelColor}（{debugInfo.pixelClass}）</div>
+              <div>ピン位置（ピクセル）: {debugInfo.markerPosition}</div>
+              <div>建物ピクセル: {debugInfo.buildingPixels}</div>
+              <div>境界ピクセル: {debugInfo.boundaryPixels}</div>
+              <div>ピン周辺の建物ピクセル: {debugInfo.nearbyBuildingPixels}</div>
+              <div>クラスタ数: {debugInfo.clustersGenerated}</div>
+              <div>タイル座標: {debugInfo.tileCoordinates}</div>
+              <div>元の座標: {debugInfo.originalCoordinates}</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
 };
 export default BuildingMapApp;
\ No newline at end of file
@@ -0,0 +1,150 @@
+import polygonClipping from 'polygon-clipping';
+
+import type { BuildingFeature, BuildingGeometry, BuildingProvenance } from '@/lib/buildings/types';
+import { geometryBounds, polygonArea, polygonsOf, type Bounds } from '@/lib/geo/polygon';
+
+// 複数の取得元の建物ポリゴンを重なり（IoU）で対応付けて1つにまとめる
+
+// 同じ建物とみなすIoUの下限
+export const DEFAULT_IOU_THRESHOLD = 0.3;
+
+export interface SourceFeatures {
+  source: string;
+  features: BuildingFeature[];
+}
+
+export interface ConflationOptions {
+  iouThreshold?: number;
+  // 代表ジオメトリを選ぶ取得元の優先順（先頭ほど優先）
+  priority?: string[];
+}
+
+interface Candidate {
+  source: string;
+  feature: BuildingFeature;
+  bounds: Bounds;
+}
+
+const toClipGeometry = (geometry: BuildingGeometry): polygonClipping.MultiPolygon =>
+  polygonsOf(geometry).map(polygon => polygon.map(ring => ring.map(([x, y]) => [x, y] as polygonClipping.Pair)));
+
+const multiPolygonArea = (polygons: polygonClipping.MultiPolygon): number =>
+  polygons.reduce((area, polygon) => area + polygonArea(polygon), 0);
+
+const boundsOverlap = (a: Bounds, b: Bounds): boolean =>
+  a[0] < b[2] && b[0] < a[2] && a[1] < b[3] && b[1] < a[3];
+
+// 2つのジオメトリの重なる部分の面積（経度緯度のままの平面面積）
+export const intersectionArea = (a: BuildingGeometry, b: BuildingGeometry): number =>
+  multiPolygonArea(polygonClipping.intersection(toClipGeometry(a), toClipGeometry(b)));
+
+// 2つのジオメトリのIoU（経度緯度のままの面積比。狭い範囲では縮尺の影響は打ち消される）
+export const intersectionOverUnion = (a: BuildingGeometry, b: BuildingGeometry): number => {
+  const clipA = toClipGeometry(a);
+  const clipB = toClipGeometry(b);
+  const intersection = intersectionArea(a, b);
+  if (intersection <= 0) return 0;
+
+  const union = multiPolygonArea(polygonClipping.union(clipA, clipB));
+  return union > 0 ? intersection / union : 0;
+};
+
+const findRoot = (parents: number[], index: number): number => {
+  while (parents[index] !== index) {
+    parents[index] = parents[parents[index]];
+    index = parents[index];
+  }
+  return index;
+};
+
+// 取得元ごとの建物を統合し、建物ごとに代表ジオメトリと出典情報を持つ地物を返す
+export const conflateBuildings = (
+  sources: SourceFeatures[],
+  options: ConflationOptions = {}
+): BuildingFeature[] => {
+  const { iouThreshold = DEFAULT_IOU_THRESHOLD, priority = sources.map(({ source }) => source) } = options;
+
+  const candidates: Candidate[] = sources.flatMap(({ source, features }) =>
+    features.map(feature => ({ source, feature, bounds: geometryBounds(feature.geometry) }))
+  );
+
+  // 異なる取得元の組み合わせについてIoUを計算
+  const pairs: Array<{ i: number; j: number; iou: number }> = [];
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (candidates[i].source === candidates[j].source) continue;
+      // building:part は建物本体と重なるため対応付けに使わない
+      if (candidates[i].feature.properties.part || candidates[j].feature.properties.part) continue;
+      if (!boundsOverlap(candidates[i].bounds, candidates[j].bounds)) continue;
+
+      const iou = intersectionOverUnion(candidates[i].feature.geometry, candidates[j].feature.geometry);
+      if (iou >= iouThreshold) {
+        pairs.push({ i, j, iou });
+      }
+    }
+  }
+
+  // IoUの高い組から順に結合する（1つの建物に同じ取得元の地物は1つまで）
+  const parents = candidates.map((_, index) => index);
+  const groupSources = candidates.map(candidate => new Set([candidate.source]));
+
+  pairs.sort((a, b) => b.iou - a.iou);
+  for (const { i, j } of pairs) {
+    const rootI = findRoot(parents, i);
+    const rootJ = findRoot(parents, j);
+    if (rootI === rootJ) continue;
+    if ([...groupSources[rootJ]].some(source => groupSources[rootI].has(source))) continue;
+
+    parents[rootJ] = rootI;
+    groupSources[rootJ].forEach(source => groupSources[rootI].add(source));
+  }
+
+  const groups = new Map<number, Candidate[]>();
+  candidates.forEach((candidate, index) => {
+    const root = findRoot(parents, index);
+    groups.set(root, [...(groups.get(root) ?? []), candidate]);
+  });
+
+  const rank = (source: string): number => {
+    const index = priority.indexOf(source);
+    return index === -1 ? priority.length : index;
+  };
+
+  return [...groups.values()].map(group => {
+    const [representative] = [...group].sort((a, b) => rank(a.source) - rank(b.source));
+
+    const provenance: BuildingProvenance = {
+      sources: [...new Set(group.map(candidate => candidate.source))],
+      matches: group.map(candidate => ({
+        source: candidate.source,
+        id: candidate.feature.properties.id,
+        iou: candidate === representative
+          ? 1
+          : intersectionOverUnion(representative.feature.geometry, candidate.feature.geometry),
+        geometry: candidate.feature.geometry,
+      })),
+    };
+
+    return {
+      ...representative.feature,
+      properties: { ...representative.feature.properties, provenance },
+    };
+  });
+};
+
+// 既存の建物と重なる（IoUが下限以上の）地物を除く（地図にまだ載っていない建物だけを残す）
+export const excludeMatchedBuildings = (
+  features: BuildingFeature[],
+  existing: BuildingFeature[],
+  iouThreshold: number = DEFAULT_IOU_THRESHOLD
+): BuildingFeature[] => {
+  const existingBounds = existing.map(feature => ({ feature, bounds: geometryBounds(feature.geometry) }));
+
+  return features.filter(feature => {
+    const bounds = geometryBounds(feature.geometry);
+    return !existingBounds.some(candidate =>
+      boundsOverlap(bounds, candidate.bounds)
+      && intersectionOverUnion(feature.geometry, candidate.feature.geometry) >= iouThreshold
+    );
+  });
+};
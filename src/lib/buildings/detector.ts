@@ -0,0 +1,174 @@
+import { conflateBuildings } from '@/lib/buildings/conflate';
+import type { BuildingFeature } from '@/lib/buildings/types';
+import type { TileWindow } from '@/lib/tiles/tile-range';
+
+// 建物検出器の共通の形と、複数の検出器の組み合わせ方（検出戦略）
+// 地図データの取得（OSM・国土地理院）も画像からの推定（色分析・OpenCV・セグメンテーション）も同じ形で扱う
+
+export interface DetectorCapabilities {
+  // vector: 既存の地図データから取得 / raster: 画像から推定
+  kind: 'vector' | 'raster';
+  // 動作する環境
+  environment: 'server' | 'browser' | 'any';
+  // 建物ごとの確信度を返さない検出器の確からしさ（0〜1）
+  confidence: number;
+}
+
+export interface DetectorInfo {
+  label: string;
+  capabilities: DetectorCapabilities;
+}
+
+export interface DetectOptions {
+  // 地図データの検索半径（m）
+  radius?: number;
+  // タイルを使う検出器の範囲
+  tileWindow?: TileWindow;
+  signal?: AbortSignal;
+  // 処理の進み具合（0〜1）
+  onProgress?: (ratio: number) => void;
+}
+
+export interface BuildingDetector extends DetectorInfo {
+  name: string;
+  detect: (lat: number, lon: number, options: DetectOptions) => Promise<BuildingFeature[]>;
+}
+
+export interface DetectorReport {
+  detector: string;
+  // ok: 建物あり / empty: 建物なし / error: 失敗 / skipped: 先に建物が見つかったため実行していない
+  status: 'ok' | 'empty' | 'error' | 'skipped';
+  featureCount: number;
+  durationMs: number;
+  // 検出した建物の確信度の平均（建物がなければ null）
+  confidence: number | null;
+  error?: string;
+}
+
+export interface DetectorRun {
+  features: BuildingFeature[];
+  report: DetectorReport;
+}
+
+// first-success: 順に試して最初に建物が見つかった結果を使う / conflate: すべて並列に実行して統合する
+export const DETECTION_MODES = ['first-success', 'conflate'] as const;
+export type DetectionMode = typeof DETECTION_MODES[number];
+
+export const isDetectionMode = (value: string): value is DetectionMode =>
+  (DETECTION_MODES as readonly string[]).includes(value);
+
+export interface DetectionStrategy<Name extends string = string> {
+  mode: DetectionMode;
+  // 検出器を試す順（conflate では代表ジオメトリを選ぶ優先順）
+  order: Name[];
+}
+
+export interface DetectionRunOptions extends DetectOptions {
+  // conflate で重なる建物を1つにまとめるか（false なら全検出器の建物をそのまま返す）
+  conflate?: boolean;
+  // 検出器ごとの結果に施す処理（輪郭の整形など）
+  transform?: (features: BuildingFeature[]) => BuildingFeature[];
+}
+
+export interface DetectionResult {
+  features: BuildingFeature[];
+  // strategy.order の順
+  reports: DetectorReport[];
+}
+
+const averageConfidence = (features: BuildingFeature[]): number | null =>
+  features.length > 0
+    ? features.reduce((sum, feature) => sum + (feature.properties.confidence ?? 0), 0) / features.length
+    : null;
+
+// 検出器を実行し、所要時間と確信度を記録する（失敗は report に残す。中断は呼び出し元に伝える）
+// 建物には検出器の名前と、検出器が付けていなければ検出器の確からしさを確信度として付ける
+export const runDetector = async (
+  detector: BuildingDetector,
+  lat: number,
+  lon: number,
+  options: DetectionRunOptions = {}
+): Promise<DetectorRun> => {
+  const startedAt = Date.now();
+  try {
+    const detected = await detector.detect(lat, lon, options);
+    const features = (options.transform ? options.transform(detected) : detected).map(feature => ({
+      ...feature,
+      properties: {
+        ...feature.properties,
+        detector: feature.properties.detector ?? detector.name,
+        confidence: feature.properties.confidence ?? detector.capabilities.confidence,
+      },
+    }));
+
+    return {
+      features,
+      report: {
+        detector: detector.name,
+        status: features.length > 0 ? 'ok' : 'empty',
+        featureCount: features.length,
+        durationMs: Date.now() - startedAt,
+        confidence: averageConfidence(features),
+      },
+    };
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.error(`Building detector error (${detector.name}):`, error);
+
+    return {
+      features: [],
+      report: {
+        detector: detector.name,
+        status: 'error',
+        featureCount: 0,
+        durationMs: Date.now() - startedAt,
+        confidence: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    };
+  }
+};
+
+const skippedReport = (detector: string): DetectorReport => ({
+  detector,
+  status: 'skipped',
+  featureCount: 0,
+  durationMs: 0,
+  confidence: null,
+});
+
+// 登録済みの検出器を戦略に従って実行する
+export const runDetectionStrategy = async <Name extends string>(
+  detectors: Record<Name, BuildingDetector>,
+  strategy: DetectionStrategy<Name>,
+  lat: number,
+  lon: number,
+  options: DetectionRunOptions = {}
+): Promise<DetectionResult> => {
+  const order = [...new Set(strategy.order)];
+  const unknown = order.filter(name => !Object.prototype.hasOwnProperty.call(detectors, name));
+  if (unknown.length > 0) throw new Error(`Unknown building detector: ${unknown.join(', ')}`);
+
+  if (strategy.mode === 'first-success') {
+    const reports: DetectorReport[] = [];
+    for (const [index, name] of order.entries()) {
+      const { features, report } = await runDetector(detectors[name], lat, lon, options);
+      reports.push(report);
+      if (features.length > 0) {
+        return { features, reports: [...reports, ...order.slice(index + 1).map(skippedReport)] };
+      }
+    }
+    return { features: [], reports };
+  }
+
+  const runs = await Promise.all(order.map(name => runDetector(detectors[name], lat, lon, options)));
+  const { conflate = true } = options;
+  const features = conflate
+    ? conflateBuildings(
+      runs.map(({ features, report }) => ({ source: report.detector, features })),
+      { priority: order }
+    )
+    : runs.flatMap(run => run.features);
+
+  return { features, reports: runs.map(run => run.report) };
+};
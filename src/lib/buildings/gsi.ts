@@ -0,0 +1,109 @@
+import axios from 'axios';
+
+import { stitchTileFeatures } from '@/lib/buildings/stitch';
+import type { BuildingFeature } from '@/lib/buildings/types';
+import { geometryFromPolygons } from '@/lib/geo/polygon';
+import { tileUrl } from '@/lib/tiles/layers';
+import { DEFAULT_TILE_WINDOW, tilesInWindow, type TileWindow } from '@/lib/tiles/tile-range';
+import { classifyRings, decodeVectorTile, GEOM_TYPE, tilePointToLonLat } from '@/lib/tiles/vector-tile';
+
+// 建物ベクトルタイルのズームレベル
+const GSI_BUILDING_ZOOM = 18;
+
+// 国土地理院ベクトルタイルの建物レイヤー名
+export const GSI_BUILDING_LAYER = 'building';
+
+// 建物種別の属性名（ベクトルタイル提供実験の建物レイヤー）
+const GSI_BUILDING_TYPE_KEYS = ['ftCode', 'type', 'vt_code'];
+
+const buildingTypeOf = (properties: Record<string, string | number | boolean>): string => {
+  for (const key of GSI_BUILDING_TYPE_KEYS) {
+    if (properties[key] !== undefined) return String(properties[key]);
+  }
+  return 'gsi_building';
+};
+
+// 建物ベクトルタイル（PBF）を復号してBuildingFeatureに変換
+export const decodeGSIBuildingTile = (
+  data: ArrayBuffer | Uint8Array,
+  tileX: number,
+  tileY: number,
+  zoom: number
+): BuildingFeature[] => {
+  const layers = decodeVectorTile(data);
+  const buildingLayer = layers.find(layer => layer.name === GSI_BUILDING_LAYER);
+  if (!buildingLayer) return [];
+
+  const features: BuildingFeature[] = [];
+
+  buildingLayer.features.forEach((feature, featureIndex) => {
+    if (feature.type !== GEOM_TYPE.POLYGON) return;
+
+    const polygons = classifyRings(feature.geometry).map(rings =>
+      rings.map(ring => ring.map(point => tilePointToLonLat(point, buildingLayer.extent, tileX, tileY, zoom)))
+    );
+    if (polygons.length === 0) return;
+
+    features.push({
+      type: 'Feature',
+      // 複数の外周を持つ地物はMultiPolygonとして扱う
+      geometry: geometryFromPolygons(polygons),
+      properties: {
+        id: feature.id || featureIndex + 1,
+        building: buildingTypeOf(feature.properties),
+        source: 'GSI',
+        attributes: feature.properties,
+      },
+    });
+  });
+
+  return features;
+};
+
+// 地点周辺の建物ベクトルタイルを取得し、タイル境界で分断された建物を結合して返す
+export const fetchGSIBuildings = async (
+  lat: number,
+  lon: number,
+  tileWindow: TileWindow = DEFAULT_TILE_WINDOW
+): Promise<BuildingFeature[]> => {
+  const zoom = GSI_BUILDING_ZOOM;
+  const tiles = tilesInWindow(lat, lon, zoom, tileWindow);
+  let failedTiles = 0;
+
+  // 範囲内のベクトルタイルを並列に取得（PBF形式）
+  const tileResults = await Promise.all(tiles.map(async (tile) => {
+    const buildingUrl = tileUrl('building', zoom, tile.x, tile.y);
+
+    try {
+      const response = await axios.get<ArrayBuffer>(buildingUrl, {
+        responseType: 'arraybuffer',
+        timeout: 10000, // 10秒タイムアウト
+        validateStatus: (status) => status < 500 // 404も含めてエラーとして扱わない
+      });
+
+      // 404エラーの場合は建物データが存在しない
+      if (response.status === 404) {
+        return { tile, features: [] };
+      }
+
+      // PBFファイル（Mapbox Vector Tile）を解析して建物ポリゴンに変換
+      return { tile, features: decodeGSIBuildingTile(response.data, tile.x, tile.y, zoom) };
+    } catch (error) {
+      console.warn(`Failed to load GSI building tile: ${buildingUrl}`, error);
+      failedTiles++;
+      return { tile, features: [] };
+    }
+  }));
+
+  // すべてのタイルで失敗した場合は取得失敗として扱う
+  if (failedTiles === tiles.length) {
+    throw new Error(`Failed to load all ${tiles.length} GSI building tiles`);
+  }
+
+  // タイル境界で分断された建物を結合し、重複を除去
+  // IDはタイルごとの連番で、タイル間で重複するため結合後に振り直す
+  return stitchTileFeatures(tileResults).map((feature, index) => ({
+    ...feature,
+    properties: { ...feature.properties, id: index + 1 },
+  }));
+};
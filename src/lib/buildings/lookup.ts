@@ -0,0 +1,156 @@
+import axios from 'axios';
+
+import {
+  runDetectionStrategy,
+  type BuildingDetector,
+  type DetectionStrategy,
+  type DetectorReport,
+} from '@/lib/buildings/detector';
+import { fetchGSIBuildings } from '@/lib/buildings/gsi';
+import { withBuildingMetrics } from '@/lib/buildings/metrics';
+import { DEFAULT_OVERPASS_RADIUS, fetchOSMBuildings } from '@/lib/buildings/overpass';
+import { regularizeBuildings } from '@/lib/buildings/regularize';
+import { BUILDING_SOURCES, DEFAULT_BUILDING_SOURCES, type BuildingSource } from '@/lib/buildings/sources';
+import type { BuildingFeature, BuildingGeoJSON } from '@/lib/buildings/types';
+import { detectBuildingsInRaster, type RasterImage, type RasterOrigin } from '@/lib/raster/color-detection';
+import { composeMosaic, decodePng } from '@/lib/raster/png';
+import { TILE_LAYERS, tileUrl } from '@/lib/tiles/layers';
+import { DEFAULT_TILE_WINDOW, tileExtent, tilesInWindow, type TileWindow } from '@/lib/tiles/tile-range';
+
+// サーバー側の建物の取得元（検出器）と、検出戦略に従った問い合わせ
+
+export interface BuildingLookupOptions {
+  // OSMの検索半径（メートル）
+  radius?: number;
+  // タイルを使う取得元（GSI・色分析・OpenCV）の範囲
+  tileWindow?: TileWindow;
+  // 取得元の組み合わせ方と順序
+  strategy?: DetectionStrategy<BuildingSource>;
+  // conflate で取得元をまたいで重なる建物を1つにまとめるか（falseなら全取得元の地物をそのまま返す）
+  conflate?: boolean;
+  // 画像から検出した建物の輪郭を直角に整形するか
+  regularize?: boolean;
+}
+
+export interface BuildingLookupResult extends BuildingGeoJSON {
+  strategy: DetectionStrategy<BuildingSource>;
+  // 取得元（検出器）ごとの結果・所要時間・確信度
+  detectors: DetectorReport[];
+}
+
+export const DEFAULT_DETECTION_STRATEGY: DetectionStrategy<BuildingSource> = {
+  mode: 'conflate',
+  order: DEFAULT_BUILDING_SOURCES,
+};
+
+const COLOR_DETECTION_ZOOM = 18;
+
+// 標準地図タイルをサーバー側でデコードして1枚の画像に並べる
+const fetchMapMosaic = async (
+  lat: number,
+  lon: number,
+  tileWindow: TileWindow
+): Promise<{ mosaic: RasterImage; origin: RasterOrigin }> => {
+  const zoom = COLOR_DETECTION_ZOOM;
+  const tiles = tilesInWindow(lat, lon, zoom, tileWindow);
+  const extent = tileExtent(tiles);
+
+  const images = await Promise.all(tiles.map(async (tile) => {
+    const url = tileUrl('std', zoom, tile.x, tile.y);
+
+    try {
+      const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 10000 });
+      return { tile, image: decodePng(response.data) };
+    } catch (error) {
+      console.warn(`Failed to load tile: ${url}`, error);
+      return { tile, image: null };
+    }
+  }));
+
+  if (images.every(({ image }) => image === null)) {
+    throw new Error(`Failed to load all ${tiles.length} map tiles`);
+  }
+
+  return { mosaic: composeMosaic(images, extent), origin: { tileX: extent.minX, tileY: extent.minY, zoom } };
+};
+
+// 標準地図タイルの色分析
+const fetchColorDetectedBuildings = async (
+  lat: number,
+  lon: number,
+  tileWindow: TileWindow
+): Promise<BuildingFeature[]> => {
+  const { mosaic, origin } = await fetchMapMosaic(lat, lon, tileWindow);
+  const { buildings } = detectBuildingsInRaster(mosaic, origin, lat, lon, {
+    tileUrl: TILE_LAYERS.std.url,
+    palette: 'std',
+  });
+  return buildings?.features ?? [];
+};
+
+// 標準地図タイルの OpenCV.js による検出（opencv.js は大きいので使うときに読み込む）
+const fetchOpenCVDetectedBuildings = async (
+  lat: number,
+  lon: number,
+  tileWindow: TileWindow
+): Promise<BuildingFeature[]> => {
+  const [{ mosaic, origin }, { detectBuildingsWithOpenCV }] = await Promise.all([
+    fetchMapMosaic(lat, lon, tileWindow),
+    import('@/lib/raster/opencv-detection'),
+  ]);
+  const buildings = detectBuildingsWithOpenCV(mosaic, origin, lat, lon, { palette: 'std' });
+  return buildings?.features ?? [];
+};
+
+// サーバー側の検出器
+export const BUILDING_DETECTORS: Record<BuildingSource, BuildingDetector> = {
+  osm: {
+    name: 'osm',
+    ...BUILDING_SOURCES.osm,
+    detect: (lat, lon, { radius }) => fetchOSMBuildings(lat, lon, radius),
+  },
+  gsi: {
+    name: 'gsi',
+    ...BUILDING_SOURCES.gsi,
+    detect: (lat, lon, { tileWindow }) => fetchGSIBuildings(lat, lon, tileWindow),
+  },
+  color: {
+    name: 'color',
+    ...BUILDING_SOURCES.color,
+    detect: (lat, lon, { tileWindow = DEFAULT_TILE_WINDOW }) => fetchColorDetectedBuildings(lat, lon, tileWindow),
+  },
+  opencv: {
+    name: 'opencv',
+    ...BUILDING_SOURCES.opencv,
+    detect: (lat, lon, { tileWindow = DEFAULT_TILE_WINDOW }) => fetchOpenCVDetectedBuildings(lat, lon, tileWindow),
+  },
+};
+
+// 検出戦略に従って取得元に問い合わせ、寸法を付けて返す
+export const lookupBuildings = async (
+  lat: number,
+  lon: number,
+  options: BuildingLookupOptions = {}
+): Promise<BuildingLookupResult> => {
+  const {
+    radius = DEFAULT_OVERPASS_RADIUS,
+    tileWindow = DEFAULT_TILE_WINDOW,
+    strategy = DEFAULT_DETECTION_STRATEGY,
+    conflate = true,
+    regularize = false,
+  } = options;
+
+  const { features, reports } = await runDetectionStrategy(BUILDING_DETECTORS, strategy, lat, lon, {
+    radius,
+    tileWindow,
+    conflate,
+    transform: regularize ? regularizeBuildings : undefined,
+  });
+
+  return {
+    type: 'FeatureCollection',
+    features: withBuildingMetrics(features),
+    strategy,
+    detectors: reports,
+  };
+};
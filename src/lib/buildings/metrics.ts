@@ -0,0 +1,40 @@
+import type { BuildingFeature, BuildingMetrics } from '@/lib/buildings/types';
+import { centroid, geodesicArea, geodesicPerimeter, longestSide } from '@/lib/geo/geodesic';
+
+// 建物の面積・周長・最長辺・重心を計算する
+
+// 画像から検出した建物の推定誤差
+// 輪郭が半ピクセル（d）内外にずれるとみなすと、面積は周長×d、周長は2πd（凸形の平行曲線）だけ変わる
+const pixelError = (resolution: number, perimeter: number): NonNullable<BuildingMetrics['error']> => {
+  const offset = resolution / 2;
+  return {
+    area: perimeter * offset,
+    perimeter: 2 * Math.PI * offset,
+    length: resolution,
+    position: offset,
+  };
+};
+
+export const computeBuildingMetrics = (feature: BuildingFeature): BuildingMetrics => {
+  const perimeter = geodesicPerimeter(feature.geometry);
+  const metrics: BuildingMetrics = {
+    area: geodesicArea(feature.geometry),
+    perimeter,
+    longestSide: longestSide(feature.geometry),
+    centroid: centroid(feature.geometry),
+  };
+
+  const { pixelResolution } = feature.properties;
+  if (pixelResolution) {
+    metrics.error = pixelError(pixelResolution, perimeter);
+  }
+
+  return metrics;
+};
+
+// 各建物に寸法を付ける
+export const withBuildingMetrics = (features: BuildingFeature[]): BuildingFeature[] =>
+  features.map(feature => ({
+    ...feature,
+    properties: { ...feature.properties, metrics: computeBuildingMetrics(feature) },
+  }));
@@ -0,0 +1,180 @@
+import axios from 'axios';
+
+import type { BuildingFeature } from '@/lib/buildings/types';
+import { geometryFromPolygons, orientRing, pointInRing } from '@/lib/geo/polygon';
+
+export const OVERPASS_API_URL = 'https://overpass-api.de/api/interpreter';
+
+// 検索半径の既定値（メートル）
+export const DEFAULT_OVERPASS_RADIUS = 500;
+
+interface OverpassPoint {
+  lat: number;
+  lon: number;
+}
+
+interface OverpassMember {
+  type: 'node' | 'way' | 'relation';
+  ref: number;
+  role: string;
+  geometry?: Array<OverpassPoint | null>;
+}
+
+export interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  tags?: Record<string, string>;
+  nodes?: number[];
+  geometry?: Array<OverpassPoint | null>;
+  members?: OverpassMember[];
+}
+
+export interface OverpassResponse {
+  elements: OverpassElement[];
+}
+
+// 建物・建物パーツ・建物のマルチポリゴンを取得するクエリ
+// out geom で way と relation メンバーの座標を直接受け取る
+export const buildOverpassQuery = (lat: number, lon: number, radius: number = DEFAULT_OVERPASS_RADIUS): string => {
+  const around = `around:${radius},${lat},${lon}`;
+  return `
+    [out:json][timeout:25];
+    (
+      way["building"](${around});
+      way["building:part"](${around});
+      relation["type"="multipolygon"]["building"](${around});
+      relation["type"="multipolygon"]["building:part"](${around});
+    );
+    out body geom;
+  `;
+};
+
+const toCoordinates = (geometry: Array<OverpassPoint | null> | undefined): number[][] =>
+  (geometry ?? [])
+    .filter((point): point is OverpassPoint => point !== null)
+    .map(point => [point.lon, point.lat]);
+
+const samePoint = (a: number[], b: number[]): boolean => a[0] === b[0] && a[1] === b[1];
+
+const isClosed = (ring: number[][]): boolean => ring.length >= 4 && samePoint(ring[0], ring[ring.length - 1]);
+
+// 分割されたwayを端点でつないで閉じたリングを組み立てる（閉じないものは捨てる）
+export const assembleRings = (segments: number[][][]): number[][][] => {
+  const remaining = segments.filter(segment => segment.length >= 2);
+  const rings: number[][][] = [];
+
+  while (remaining.length > 0) {
+    const ring = [...remaining.shift()!];
+
+    while (!isClosed(ring)) {
+      const last = ring[ring.length - 1];
+      const index = remaining.findIndex(segment =>
+        samePoint(segment[0], last) || samePoint(segment[segment.length - 1], last)
+      );
+      if (index === -1) break;
+
+      const [segment] = remaining.splice(index, 1);
+      const oriented = samePoint(segment[0], last) ? segment : [...segment].reverse();
+      ring.push(...oriented.slice(1));
+    }
+
+    if (isClosed(ring)) {
+      rings.push(ring);
+    }
+  }
+
+  return rings;
+};
+
+const buildingProperties = (element: OverpassElement): BuildingFeature['properties'] => {
+  const tags = element.tags ?? {};
+  const part = tags.building === undefined && tags['building:part'] !== undefined;
+
+  return {
+    id: element.id,
+    building: tags.building ?? tags['building:part'] ?? 'unknown',
+    source: 'OpenStreetMap',
+    osmType: element.type === 'relation' ? 'relation' : 'way',
+    ...(part ? { part: true } : {}),
+    attributes: tags,
+  };
+};
+
+const wayToFeature = (element: OverpassElement): BuildingFeature | null => {
+  const ring = toCoordinates(element.geometry);
+  if (!isClosed(ring)) return null;
+
+  return {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [orientRing(ring, true)] },
+    properties: buildingProperties(element),
+  };
+};
+
+// マルチポリゴンのrelationを外周と穴に組み立てる
+const relationToFeature = (element: OverpassElement): BuildingFeature | null => {
+  const members = (element.members ?? []).filter(member => member.type === 'way');
+  const outerRings = assembleRings(
+    members.filter(member => member.role !== 'inner').map(member => toCoordinates(member.geometry))
+  );
+  const innerRings = assembleRings(
+    members.filter(member => member.role === 'inner').map(member => toCoordinates(member.geometry))
+  );
+  if (outerRings.length === 0) return null;
+
+  const polygons = outerRings.map(ring => [orientRing(ring, true)]);
+
+  // 穴はそれを含む外周に割り当てる
+  for (const inner of innerRings) {
+    const polygon = polygons.find(([outer]) => pointInRing(inner[0], outer));
+    if (polygon) {
+      polygon.push(orientRing(inner, false));
+    }
+  }
+
+  return {
+    type: 'Feature',
+    geometry: geometryFromPolygons(polygons),
+    properties: buildingProperties(element),
+  };
+};
+
+const isBuildingElement = (element: OverpassElement): boolean =>
+  element.tags?.building !== undefined || element.tags?.['building:part'] !== undefined;
+
+// Overpass APIのレスポンスを建物のGeoJSON地物に変換
+export const overpassToBuildings = (response: OverpassResponse): BuildingFeature[] => {
+  const features: BuildingFeature[] = [];
+
+  for (const element of response.elements ?? []) {
+    if (!isBuildingElement(element)) continue;
+
+    const feature = element.type === 'way'
+      ? wayToFeature(element)
+      : element.type === 'relation' && element.tags?.type === 'multipolygon'
+        ? relationToFeature(element)
+        : null;
+
+    if (feature) {
+      features.push(feature);
+    }
+  }
+
+  return features;
+};
+
+// Overpass APIから地点周辺の建物を取得
+export const fetchOSMBuildings = async (
+  lat: number,
+  lon: number,
+  radius: number = DEFAULT_OVERPASS_RADIUS
+): Promise<BuildingFeature[]> => {
+  const response = await axios.get<OverpassResponse>(OVERPASS_API_URL, {
+    params: { data: buildOverpassQuery(lat, lon, radius) },
+    timeout: 30000
+  });
+
+  return overpassToBuildings(response.data);
+};
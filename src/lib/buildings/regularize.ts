@@ -0,0 +1,43 @@
+import type { BuildingFeature } from '@/lib/buildings/types';
+import { regularizeGeometry, type RegularizationOptions } from '@/lib/geo/regularize';
+
+// 画像から検出した建物の輪郭を直角に整形する（元のジオメトリも残して比較できるようにする）
+
+// 段差とみなす辺の長さ・斜めの壁とみなす最短の長さ（画素の大きさの倍数）
+const MIN_EDGE_PIXELS = 3;
+const MIN_DIAGONAL_PIXELS = 10;
+
+export const regularizeBuilding = (
+  feature: BuildingFeature,
+  options: RegularizationOptions = {}
+): BuildingFeature => {
+  const { pixelResolution } = feature.properties;
+  const result = regularizeGeometry(feature.geometry, {
+    ...(pixelResolution ? {
+      minEdgeLength: MIN_EDGE_PIXELS * pixelResolution,
+      minDiagonalLength: MIN_DIAGONAL_PIXELS * pixelResolution,
+    } : {}),
+    ...options,
+  });
+  // 整形できない形はそのまま返す
+  if (!result) return feature;
+
+  return {
+    ...feature,
+    geometry: result.geometry,
+    properties: {
+      ...feature.properties,
+      regularization: {
+        orientation: result.orientation,
+        originalGeometry: feature.geometry,
+      },
+    },
+  };
+};
+
+// 画像から検出した建物（画素の大きさを持つもの）だけを整形する
+export const regularizeBuildings = (
+  features: BuildingFeature[],
+  options: RegularizationOptions = {}
+): BuildingFeature[] =>
+  features.map(feature => (feature.properties.pixelResolution ? regularizeBuilding(feature, options) : feature));
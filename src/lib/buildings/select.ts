@@ -0,0 +1,70 @@
+import type { BuildingFeature } from '@/lib/buildings/types';
+import { distanceToGeometryMeters } from '@/lib/geo/distance';
+import { geometryArea, pointInGeometry } from '@/lib/geo/polygon';
+
+// 住所の地点に最も近い建物を探す距離の上限（メートル）
+export const DEFAULT_SELECTION_MAX_DISTANCE = 30;
+
+export interface BuildingSelection {
+  feature: BuildingFeature;
+  // contains: 地点を含む建物 / nearest: 閾値内で最も近い建物
+  match: 'contains' | 'nearest';
+  // 地点から建物の輪郭までの距離（含む場合は0）
+  distance: number;
+  // 0〜1の一致度
+  confidence: number;
+}
+
+export interface BuildingSelectionOptions {
+  maxDistance?: number;
+}
+
+// building:part より建物本体を、同じ種類なら小さい（より限定的な）建物を優先する
+const compareCandidates = (a: BuildingFeature, b: BuildingFeature): number => {
+  const partOrder = Number(a.properties.part ?? false) - Number(b.properties.part ?? false);
+  if (partOrder !== 0) return partOrder;
+  return geometryArea(a.geometry) - geometryArea(b.geometry);
+};
+
+// マーカー位置（[lat, lon]）が指す建物を1つ選ぶ
+export const selectMarkerBuilding = (
+  features: BuildingFeature[],
+  marker: [number, number],
+  options: BuildingSelectionOptions = {}
+): BuildingSelection | null => {
+  const { maxDistance = DEFAULT_SELECTION_MAX_DISTANCE } = options;
+  const point = [marker[1], marker[0]];
+
+  const containing = features.filter(feature => pointInGeometry(point, feature.geometry));
+  if (containing.length > 0) {
+    const [feature] = [...containing].sort(compareCandidates);
+    // 同じ地点を含む建物が複数ある場合（重複データや建物パーツ）は一致度を下げる
+    const wholeBuildings = containing.filter(candidate => !candidate.properties.part);
+    return {
+      feature,
+      match: 'contains',
+      distance: 0,
+      confidence: wholeBuildings.length > 1 ? 0.8 : 1,
+    };
+  }
+
+  let nearest: { feature: BuildingFeature; distance: number } | null = null;
+  for (const feature of features) {
+    const distance = distanceToGeometryMeters(point, feature.geometry);
+    if (distance > maxDistance) continue;
+    if (!nearest || distance < nearest.distance ||
+      (distance === nearest.distance && compareCandidates(feature, nearest.feature) < 0)) {
+      nearest = { feature, distance };
+    }
+  }
+
+  if (!nearest) return null;
+
+  // 建物の外側にある場合は距離に応じて一致度を0.5から下げていく
+  return {
+    feature: nearest.feature,
+    match: 'nearest',
+    distance: nearest.distance,
+    confidence: 0.5 * (1 - nearest.distance / maxDistance),
+  };
+};
@@ -0,0 +1,30 @@
+import type { DetectorInfo } from '@/lib/buildings/detector';
+
+// サーバー側の建物の取得元（検出器）の一覧（ブラウザからも参照できるよう、処理本体は lookup.ts に置く）
+
+export const BUILDING_SOURCES = {
+  osm: {
+    label: 'OpenStreetMap',
+    capabilities: { kind: 'vector', environment: 'server', confidence: 0.9 },
+  },
+  gsi: {
+    label: '国土地理院 建物',
+    capabilities: { kind: 'vector', environment: 'server', confidence: 0.95 },
+  },
+  color: {
+    label: '地図タイルの色分析',
+    capabilities: { kind: 'raster', environment: 'any', confidence: 0.6 },
+  },
+  opencv: {
+    label: '地図タイルのOpenCV解析',
+    capabilities: { kind: 'raster', environment: 'server', confidence: 0.6 },
+  },
+} as const satisfies Record<string, DetectorInfo>;
+
+export type BuildingSource = keyof typeof BUILDING_SOURCES;
+
+// 既定の取得元（代表ジオメトリを選ぶ優先順）
+export const DEFAULT_BUILDING_SOURCES: BuildingSource[] = ['osm', 'gsi'];
+
+export const isBuildingSource = (value: string): value is BuildingSource =>
+  Object.prototype.hasOwnProperty.call(BUILDING_SOURCES, value);
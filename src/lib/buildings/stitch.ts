@@ -0,0 +1,149 @@
+import polygonClipping from 'polygon-clipping';
+
+import type { BuildingFeature, BuildingGeometry } from '@/lib/buildings/types';
+import {
+  geometryArea,
+  geometryBounds,
+  geometryFromPolygons,
+  polygonArea,
+  polygonsOf,
+  type Bounds,
+} from '@/lib/geo/polygon';
+import { tileToLonLat, type TileCoord } from '@/lib/tiles/mercator';
+
+// タイルごとの取得結果
+export interface TileFeatures {
+  tile: TileCoord;
+  features: BuildingFeature[];
+}
+
+// タイル境界上とみなす許容誤差（度）
+const SEAM_EPSILON = 1e-9;
+
+// 重なりとみなす最小面積（度²、数値誤差による極小の交差を除外）
+const MIN_OVERLAP_AREA = 1e-14;
+
+interface Fragment {
+  feature: BuildingFeature;
+  tile: TileCoord;
+  bounds: Bounds;
+  area: number;
+}
+
+const boundsTouch = (a: Bounds, b: Bounds): boolean =>
+  a[0] <= b[2] + SEAM_EPSILON && b[0] <= a[2] + SEAM_EPSILON &&
+  a[1] <= b[3] + SEAM_EPSILON && b[1] <= a[3] + SEAM_EPSILON;
+
+const toClipGeometry = (geometry: BuildingGeometry): polygonClipping.MultiPolygon =>
+  polygonsOf(geometry).map(polygon => polygon.map(ring => ring.map(([x, y]) => [x, y] as polygonClipping.Pair)));
+
+// 指定した直線（axis=0: 経度一定、axis=1: 緯度一定）上にある辺の区間を列挙
+const seamIntervals = (geometry: BuildingGeometry, axis: 0 | 1, value: number): Array<[number, number]> => {
+  const other = axis === 0 ? 1 : 0;
+  const intervals: Array<[number, number]> = [];
+
+  for (const [ring] of polygonsOf(geometry)) {
+    for (let i = 0; i + 1 < ring.length; i++) {
+      const a = ring[i];
+      const b = ring[i + 1];
+      if (Math.abs(a[axis] - value) < SEAM_EPSILON && Math.abs(b[axis] - value) < SEAM_EPSILON) {
+        intervals.push([Math.min(a[other], b[other]), Math.max(a[other], b[other])]);
+      }
+    }
+  }
+  return intervals;
+};
+
+// 隣接タイルの断片が共有境界線上で辺を共有しているか
+const sharesSeam = (a: Fragment, b: Fragment): boolean => {
+  const dx = b.tile.x - a.tile.x;
+  const dy = b.tile.y - a.tile.y;
+  if (Math.abs(dx) + Math.abs(dy) !== 1) return false;
+
+  const zoom = a.tile.z;
+  const axis: 0 | 1 = dx !== 0 ? 0 : 1;
+  const [seamLon, seamLat] = tileToLonLat(Math.max(a.tile.x, b.tile.x), Math.max(a.tile.y, b.tile.y), zoom);
+  const value = axis === 0 ? seamLon : seamLat;
+
+  const intervalsA = seamIntervals(a.feature.geometry, axis, value);
+  const intervalsB = seamIntervals(b.feature.geometry, axis, value);
+
+  return intervalsA.some(([startA, endA]) =>
+    intervalsB.some(([startB, endB]) => Math.min(endA, endB) - Math.max(startA, startB) > SEAM_EPSILON)
+  );
+};
+
+// 異なるタイルの断片同士が面積を持って重なっているか（タイルのバッファ領域による重複）
+const overlaps = (a: Fragment, b: Fragment): boolean => {
+  const intersection = polygonClipping.intersection(
+    toClipGeometry(a.feature.geometry),
+    toClipGeometry(b.feature.geometry)
+  );
+  return intersection.reduce((area, polygon) => area + polygonArea(polygon), 0) > MIN_OVERLAP_AREA;
+};
+
+const findRoot = (parents: number[], index: number): number => {
+  while (parents[index] !== index) {
+    parents[index] = parents[parents[index]];
+    index = parents[index];
+  }
+  return index;
+};
+
+// タイル境界で分断された建物の断片を結合し、重複を取り除く
+export const stitchTileFeatures = (tiles: TileFeatures[]): BuildingFeature[] => {
+  const fragments: Fragment[] = tiles.flatMap(({ tile, features }) =>
+    features.map(feature => ({
+      feature,
+      tile,
+      bounds: geometryBounds(feature.geometry),
+      area: geometryArea(feature.geometry),
+    }))
+  );
+
+  const parents = fragments.map((_, index) => index);
+
+  for (let i = 0; i < fragments.length; i++) {
+    for (let j = i + 1; j < fragments.length; j++) {
+      const a = fragments[i];
+      const b = fragments[j];
+      // 同一タイル内の地物は別の建物として扱う
+      if (a.tile.x === b.tile.x && a.tile.y === b.tile.y) continue;
+      if (!boundsTouch(a.bounds, b.bounds)) continue;
+      if (findRoot(parents, i) === findRoot(parents, j)) continue;
+
+      if (sharesSeam(a, b) || overlaps(a, b)) {
+        parents[findRoot(parents, j)] = findRoot(parents, i);
+      }
+    }
+  }
+
+  const groups = new Map<number, Fragment[]>();
+  fragments.forEach((fragment, index) => {
+    const root = findRoot(parents, index);
+    groups.set(root, [...(groups.get(root) ?? []), fragment]);
+  });
+
+  const stitched: BuildingFeature[] = [];
+
+  for (const group of groups.values()) {
+    // 属性は最も大きい断片のものを引き継ぐ
+    const largest = group.reduce((max, fragment) => fragment.area > max.area ? fragment : max);
+
+    if (group.length === 1) {
+      stitched.push(largest.feature);
+      continue;
+    }
+
+    const [first, ...rest] = group.map(fragment => toClipGeometry(fragment.feature.geometry));
+    const merged = polygonClipping.union(first, ...rest);
+    if (merged.length === 0) continue;
+
+    stitched.push({
+      ...largest.feature,
+      geometry: geometryFromPolygons(merged),
+    });
+  }
+
+  return stitched;
+};
@@ -0,0 +1,86 @@
+// 建物データの共通型定義
+
+// ベクトルタイルやOSMタグ等から引き継ぐ元データの属性
+export type FeatureAttributes = Record<string, string | number | boolean>;
+
+// 外周リングの後に穴（中庭など）のリングが続く
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+export type BuildingGeometry = PolygonGeometry | MultiPolygonGeometry;
+
+// 複数の取得元を統合した建物の出典情報
+export interface BuildingProvenance {
+  // この建物を検出した取得元
+  sources: string[];
+  // 取得元ごとの元のジオメトリと代表ジオメトリとのIoU
+  matches: Array<{
+    source: string;
+    id: number;
+    iou: number;
+    geometry: BuildingGeometry;
+  }>;
+}
+
+// 建物の寸法（WGS84楕円体上の測地線で計算）
+export interface BuildingMetrics {
+  // 面積（m²、穴を除く）
+  area: number;
+  // 外周の長さ（m）
+  perimeter: number;
+  // 最も長い辺の長さ（m）と方位角（北から時計回りの度）
+  longestSide: { length: number; bearing: number };
+  // 面積重心 [lon, lat]
+  centroid: [number, number];
+  // 画像から検出した建物の推定誤差（画素の大きさによる）
+  error?: {
+    area: number;
+    perimeter: number;
+    length: number;
+    position: number;
+  };
+}
+
+// 輪郭の直角整形（整形後のジオメトリを geometry に置き、元のジオメトリを残す）
+export interface BuildingRegularization {
+  // 主方向（北から時計回りの度、0〜90）
+  orientation: number;
+  originalGeometry: BuildingGeometry;
+}
+
+export interface BuildingFeature {
+  type: 'Feature';
+  geometry: BuildingGeometry;
+  properties: {
+    id: number;
+    building?: string;
+    source?: string;
+    // 建物を検出した検出器の名前（統合した建物は代表ジオメトリの検出器）
+    detector?: string;
+    pixelCount?: number;
+    // 画像から検出した建物の1ピクセルの大きさ（m）
+    pixelResolution?: number;
+    // 推定による検出の確信度（0〜1）
+    confidence?: number;
+    // OSMの要素種別（way / relation）
+    osmType?: 'way' | 'relation';
+    // building:part（建物の一部）かどうか
+    part?: boolean;
+    attributes?: FeatureAttributes;
+    provenance?: BuildingProvenance;
+    metrics?: BuildingMetrics;
+    regularization?: BuildingRegularization;
+  };
+}
+
+export interface BuildingGeoJSON {
+  type: 'FeatureCollection';
+  features: BuildingFeature[];
+}
@@ -0,0 +1,150 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+import type { BuildingDetector } from '@/lib/buildings/detector';
+import { BUILDING_DETECTORS } from '@/lib/buildings/lookup';
+import { regularizeBuildings } from '@/lib/buildings/regularize';
+import { BUILDING_SOURCES, isBuildingSource } from '@/lib/buildings/sources';
+import type { BuildingFeature } from '@/lib/buildings/types';
+import type { EvaluationFixture } from '@/lib/evaluation/fixtures';
+import {
+  DEFAULT_MARKER_RADIUS,
+  DEFAULT_MIN_COMPONENT_SIZE,
+  detectBuildingsInRaster,
+} from '@/lib/raster/color-detection';
+
+// 評価できる検出器
+// 色分析・OpenCV は保存済みのタイル画像だけで動く。それ以外の登録済みの検出器や、モジュールで渡した検出器も評価できる
+
+export type DetectorParameters = Record<string, string | number | boolean>;
+
+export interface EvaluationDetector {
+  name: string;
+  // レポートに記録する設定値
+  parameters: DetectorParameters;
+  detect: (fixture: EvaluationFixture) => Promise<BuildingFeature[]> | BuildingFeature[];
+}
+
+export type EvaluationDetectorFactory = (options: ColorDetectorOptions) => EvaluationDetector;
+
+export interface ColorDetectorOptions {
+  toleranceScale?: number;
+  markerRadius?: number;
+  minComponentSize?: number;
+  regularize?: boolean;
+}
+
+// 地図タイルの色分析
+export const createColorDetector = (options: ColorDetectorOptions = {}): EvaluationDetector => {
+  const {
+    toleranceScale = 1,
+    markerRadius = DEFAULT_MARKER_RADIUS,
+    minComponentSize = DEFAULT_MIN_COMPONENT_SIZE,
+    regularize = false,
+  } = options;
+
+  return {
+    name: 'color',
+    parameters: { toleranceScale, markerRadius, minComponentSize, regularize },
+    detect: (fixture) => {
+      const { buildings } = detectBuildingsInRaster(
+        fixture.image,
+        { tileX: fixture.extent.minX, tileY: fixture.extent.minY, zoom: fixture.zoom, tileSize: fixture.tileSize },
+        fixture.lat,
+        fixture.lon,
+        { palette: fixture.palette, toleranceScale, markerRadius, minComponentSize }
+      );
+      const features = buildings?.features ?? [];
+      return regularize ? regularizeBuildings(features) : features;
+    },
+  };
+};
+
+// OpenCV.js による検出（opencv.js は大きいので使うときに読み込む）
+export const createOpenCVDetector = (options: ColorDetectorOptions = {}): EvaluationDetector => {
+  const {
+    toleranceScale = 1,
+    markerRadius = DEFAULT_MARKER_RADIUS,
+    minComponentSize = DEFAULT_MIN_COMPONENT_SIZE,
+    regularize = false,
+  } = options;
+
+  return {
+    name: 'opencv',
+    parameters: { toleranceScale, markerRadius, minComponentSize, regularize },
+    detect: async (fixture) => {
+      const { detectBuildingsWithOpenCV } = await import('@/lib/raster/opencv-detection');
+      const buildings = detectBuildingsWithOpenCV(
+        fixture.image,
+        { tileX: fixture.extent.minX, tileY: fixture.extent.minY, zoom: fixture.zoom, tileSize: fixture.tileSize },
+        fixture.lat,
+        fixture.lon,
+        { palette: fixture.palette, toleranceScale, markerRadius, minComponentSize }
+      );
+      const features = buildings?.features ?? [];
+      return regularize ? regularizeBuildings(features) : features;
+    },
+  };
+};
+
+export const EVALUATION_DETECTORS = {
+  color: createColorDetector,
+  opencv: createOpenCVDetector,
+} as const;
+
+export type EvaluationDetectorName = keyof typeof EVALUATION_DETECTORS;
+
+export const isEvaluationDetectorName = (value: string): value is EvaluationDetectorName =>
+  Object.prototype.hasOwnProperty.call(EVALUATION_DETECTORS, value);
+
+// サーバー側の検出器（BUILDING_DETECTORS）をそのまま評価する
+// 保存済みのタイルは使わずに地点の緯度経度で問い合わせるので、OSM・国土地理院はネットワークに接続する
+export const createBuildingDetectorAdapter = (
+  detector: BuildingDetector,
+  options: ColorDetectorOptions = {}
+): EvaluationDetector => {
+  const { regularize = false } = options;
+
+  return {
+    name: detector.name,
+    parameters: { regularize },
+    detect: async (fixture) => {
+      const features = await detector.detect(fixture.lat, fixture.lon, {});
+      return regularize ? regularizeBuildings(features) : features;
+    },
+  };
+};
+
+const isEvaluationDetector = (value: unknown): value is EvaluationDetector => {
+  const detector = value as Partial<EvaluationDetector> | null;
+  return typeof detector?.name === 'string'
+    && typeof detector.parameters === 'object' && detector.parameters !== null
+    && typeof detector.detect === 'function';
+};
+
+const isModulePath = (value: string): boolean => /[\\/]|\.[cm]?[jt]s$/.test(value);
+
+// 検出器のモジュールを読み込む（default export は検出器か、オプションを受け取って検出器を返す関数）
+const loadDetectorModule = async (file: string, options: ColorDetectorOptions): Promise<EvaluationDetector> => {
+  const loaded = await import(pathToFileURL(path.resolve(file)).href) as { default?: unknown };
+  const detector = typeof loaded.default === 'function'
+    ? (loaded.default as EvaluationDetectorFactory)(options)
+    : loaded.default;
+  if (!isEvaluationDetector(detector)) {
+    throw new Error(`${file} must default-export an evaluation detector or a function that returns one`);
+  }
+  return detector;
+};
+
+// 名前（EVALUATION_DETECTORS、BUILDING_DETECTORS の順に探す）かモジュールのパスから検出器を作る
+export const resolveEvaluationDetector = async (
+  nameOrPath: string,
+  options: ColorDetectorOptions = {}
+): Promise<EvaluationDetector> => {
+  if (isEvaluationDetectorName(nameOrPath)) return EVALUATION_DETECTORS[nameOrPath](options);
+  if (isBuildingSource(nameOrPath)) return createBuildingDetectorAdapter(BUILDING_DETECTORS[nameOrPath], options);
+  if (isModulePath(nameOrPath)) return loadDetectorModule(nameOrPath, options);
+
+  const names = [...new Set([...Object.keys(EVALUATION_DETECTORS), ...Object.keys(BUILDING_SOURCES)])];
+  throw new Error(`Unknown detector: ${nameOrPath} (${names.join(', ')} or a module path)`);
+};
@@ -0,0 +1,131 @@
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+
+import type { BuildingFeature, BuildingGeometry } from '@/lib/buildings/types';
+import type { RasterImage } from '@/lib/raster/color-detection';
+import { DEFAULT_PALETTE_STYLE, isPaletteStyle, type PaletteStyle } from '@/lib/raster/palette';
+import { composeMosaic, decodePng } from '@/lib/raster/png';
+import { tileRangeOf, type TileCoord, type TileRange, type TileSize } from '@/lib/tiles/mercator';
+
+// 検出精度の評価に使う保存済みのタイルと正解の建物（Node.js専用、ネットワークを使わない）
+//
+// fixtures/evaluation/<名前>/
+//   fixture.json       { "lat": 35.68, "lon": 139.76, "zoom": 18, "palette": "std", "description": "..." }
+//   tiles/{z}/{x}/{y}.png
+//   reference.geojson  正解の建物（OSM・国土地理院ベクトルタイルなど）の FeatureCollection
+
+export const DEFAULT_FIXTURE_DIR = 'fixtures/evaluation';
+
+interface FixtureMetadata {
+  lat: number;
+  lon: number;
+  zoom: number;
+  palette?: string;
+  description?: string;
+}
+
+export interface EvaluationFixture {
+  name: string;
+  description?: string;
+  lat: number;
+  lon: number;
+  zoom: number;
+  palette: PaletteStyle;
+  // タイルを並べた画像と、その範囲
+  image: RasterImage;
+  extent: TileRange;
+  tileSize: TileSize;
+  references: BuildingFeature[];
+}
+
+interface ReferenceCollection {
+  features?: Array<{
+    geometry?: { type?: string; coordinates?: unknown } | null;
+    properties?: Record<string, unknown> | null;
+  }>;
+}
+
+const isBuildingGeometry = (geometry: { type?: string; coordinates?: unknown } | null | undefined): geometry is BuildingGeometry =>
+  (geometry?.type === 'Polygon' || geometry?.type === 'MultiPolygon') && Array.isArray(geometry.coordinates);
+
+// 正解の建物を読み込む（ポリゴン以外の地物は除く。IDがなければ1からの連番）
+const loadReferences = async (file: string): Promise<BuildingFeature[]> => {
+  const collection = JSON.parse(await readFile(file, 'utf8')) as ReferenceCollection;
+  return (collection.features ?? []).flatMap((feature, index): BuildingFeature[] => {
+    if (!isBuildingGeometry(feature.geometry)) return [];
+
+    const properties = feature.properties ?? {};
+    return [{
+      type: 'Feature',
+      geometry: feature.geometry,
+      properties: {
+        id: typeof properties.id === 'number' ? properties.id : index + 1,
+        source: typeof properties.source === 'string' ? properties.source : 'reference',
+      },
+    }];
+  });
+};
+
+// tiles/{z}/{x}/{y}.png を読み込んで1枚の画像に並べる
+const loadTiles = async (dir: string, zoom: number): Promise<{ image: RasterImage; extent: TileRange; tileSize: TileSize }> => {
+  const zoomDir = path.join(dir, 'tiles', String(zoom));
+  const tiles: Array<{ tile: TileCoord; image: RasterImage }> = [];
+
+  for (const xName of await readdir(zoomDir)) {
+    for (const yName of await readdir(path.join(zoomDir, xName))) {
+      const match = /^(\d+)\.png$/.exec(yName);
+      if (!match || !/^\d+$/.test(xName)) continue;
+
+      const data = await readFile(path.join(zoomDir, xName, yName));
+      tiles.push({ tile: { x: Number(xName), y: Number(match[1]), z: zoom }, image: decodePng(data) });
+    }
+  }
+  if (tiles.length === 0) throw new Error(`No tiles found in ${zoomDir}`);
+
+  const tileSize: TileSize = tiles[0].image.width === 512 ? 512 : 256;
+  const extent = tileRangeOf(tiles.map(({ tile }) => tile));
+  return { image: composeMosaic(tiles, extent, tileSize), extent, tileSize };
+};
+
+export const loadFixture = async (dir: string): Promise<EvaluationFixture> => {
+  const metadata = JSON.parse(await readFile(path.join(dir, 'fixture.json'), 'utf8')) as FixtureMetadata;
+  if (![metadata.lat, metadata.lon, metadata.zoom].every(Number.isFinite)) {
+    throw new Error(`${dir}/fixture.json must have numeric lat, lon and zoom`);
+  }
+  if (metadata.palette !== undefined && !isPaletteStyle(metadata.palette)) {
+    throw new Error(`${dir}/fixture.json has unknown palette: ${metadata.palette}`);
+  }
+
+  const [{ image, extent, tileSize }, references] = await Promise.all([
+    loadTiles(dir, metadata.zoom),
+    loadReferences(path.join(dir, 'reference.geojson')),
+  ]);
+
+  return {
+    name: path.basename(dir),
+    description: metadata.description,
+    lat: metadata.lat,
+    lon: metadata.lon,
+    zoom: metadata.zoom,
+    palette: metadata.palette ?? DEFAULT_PALETTE_STYLE,
+    image,
+    extent,
+    tileSize,
+    references,
+  };
+};
+
+// fixture.json を持つサブディレクトリをすべて読み込む（名前順）
+export const loadFixtures = async (rootDir: string = DEFAULT_FIXTURE_DIR): Promise<EvaluationFixture[]> => {
+  const entries = await readdir(rootDir, { withFileTypes: true });
+  const fixtures: EvaluationFixture[] = [];
+
+  for (const entry of entries.filter(entry => entry.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const dir = path.join(rootDir, entry.name);
+    const files = await readdir(dir);
+    if (!files.includes('fixture.json')) continue;
+    fixtures.push(await loadFixture(dir));
+  }
+
+  return fixtures;
+};
@@ -0,0 +1,181 @@
+import { intersectionArea, intersectionOverUnion } from '@/lib/buildings/conflate';
+import type { BuildingFeature, BuildingGeometry } from '@/lib/buildings/types';
+import { distanceToGeometryMeters } from '@/lib/geo/distance';
+import { geometryArea, polygonsOf } from '@/lib/geo/polygon';
+
+// 検出した建物と正解の建物の比較（1対1の対応付けと、建物ごと・全体の精度）
+
+// 同じ建物とみなすIoUの下限
+export const DEFAULT_MATCH_IOU = 0.5;
+
+// 頂点と相手の輪郭との距離（m）の統計
+export interface DistanceStats {
+  count: number;
+  mean: number;
+  median: number;
+  rms: number;
+  max: number;
+}
+
+export interface BuildingEvaluation {
+  referenceId: number;
+  // 対応付いた検出結果（なければ null）
+  detectionId: number | null;
+  iou: number;
+  // 検出面積のうち正解と重なる割合
+  precision: number;
+  // 正解面積のうち検出と重なる割合
+  recall: number;
+  f1: number;
+  // 双方の頂点から相手の輪郭までの距離
+  vertexDistance: DistanceStats | null;
+}
+
+export interface DetectionSummary {
+  references: number;
+  detections: number;
+  // IoU が matchIou 以上で対応付いた数
+  truePositives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  // 対応付いた建物の平均
+  meanIoU: number;
+  vertexDistance: DistanceStats | null;
+}
+
+export interface DetectionEvaluation {
+  buildings: BuildingEvaluation[];
+  // 正解と対応付かなかった検出結果と、最も重なる正解とのIoU
+  unmatchedDetections: Array<{ detectionId: number; bestIoU: number }>;
+  summary: DetectionSummary;
+  // 集計用（summary.vertexDistance の元データ）
+  vertexDistances: number[];
+}
+
+const f1Score = (precision: number, recall: number) =>
+  precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0;
+
+export const distanceStats = (distances: number[]): DistanceStats | null => {
+  if (distances.length === 0) return null;
+
+  const sorted = [...distances].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, distance) => sum + distance, 0) / sorted.length,
+    median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    rms: Math.sqrt(sorted.reduce((sum, distance) => sum + distance * distance, 0) / sorted.length),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+// 頂点（閉じる点を除く）
+const geometryVertices = (geometry: BuildingGeometry): number[][] =>
+  polygonsOf(geometry).flatMap(polygon => polygon.flatMap(ring => ring.slice(0, -1)));
+
+// 一方の頂点から他方の輪郭までの距離（両方向）
+const vertexDistances = (a: BuildingGeometry, b: BuildingGeometry): number[] => [
+  ...geometryVertices(a).map(vertex => distanceToGeometryMeters(vertex, b)),
+  ...geometryVertices(b).map(vertex => distanceToGeometryMeters(vertex, a)),
+];
+
+// 指標をまとめる（複数の画像の結果の合算にも使う）
+export const summarizeDetection = (
+  references: number,
+  detections: number,
+  matchedIoUs: number[],
+  distances: number[]
+): DetectionSummary => {
+  const truePositives = matchedIoUs.length;
+  const precision = detections > 0 ? truePositives / detections : 0;
+  const recall = references > 0 ? truePositives / references : 0;
+  return {
+    references,
+    detections,
+    truePositives,
+    precision,
+    recall,
+    f1: f1Score(precision, recall),
+    meanIoU: truePositives > 0 ? matchedIoUs.reduce((sum, iou) => sum + iou, 0) / truePositives : 0,
+    vertexDistance: distanceStats(distances),
+  };
+};
+
+// IoU の大きい組から1対1に対応付けて評価する
+export const evaluateDetection = (
+  detections: BuildingFeature[],
+  references: BuildingFeature[],
+  matchIou: number = DEFAULT_MATCH_IOU
+): DetectionEvaluation => {
+  const pairs: Array<{ detection: number; reference: number; iou: number }> = [];
+  detections.forEach((detection, detectionIndex) => {
+    references.forEach((reference, referenceIndex) => {
+      const iou = intersectionOverUnion(detection.geometry, reference.geometry);
+      if (iou > 0) pairs.push({ detection: detectionIndex, reference: referenceIndex, iou });
+    });
+  });
+  pairs.sort((a, b) => b.iou - a.iou);
+
+  const detectionMatches = new Map<number, number>();
+  const referenceMatches = new Map<number, number>();
+  for (const pair of pairs) {
+    if (pair.iou < matchIou) break;
+    if (detectionMatches.has(pair.detection) || referenceMatches.has(pair.reference)) continue;
+    detectionMatches.set(pair.detection, pair.reference);
+    referenceMatches.set(pair.reference, pair.detection);
+  }
+
+  const allDistances: number[] = [];
+  const buildings = references.map((reference, referenceIndex): BuildingEvaluation => {
+    const detectionIndex = referenceMatches.get(referenceIndex);
+    if (detectionIndex === undefined) {
+      return {
+        referenceId: reference.properties.id,
+        detectionId: null,
+        iou: 0,
+        precision: 0,
+        recall: 0,
+        f1: 0,
+        vertexDistance: null,
+      };
+    }
+
+    const detection = detections[detectionIndex];
+    const intersection = intersectionArea(detection.geometry, reference.geometry);
+    const precision = intersection / geometryArea(detection.geometry);
+    const recall = intersection / geometryArea(reference.geometry);
+    const distances = vertexDistances(detection.geometry, reference.geometry);
+    allDistances.push(...distances);
+
+    return {
+      referenceId: reference.properties.id,
+      detectionId: detection.properties.id,
+      iou: intersectionOverUnion(detection.geometry, reference.geometry),
+      precision,
+      recall,
+      f1: f1Score(precision, recall),
+      vertexDistance: distanceStats(distances),
+    };
+  });
+
+  const unmatchedDetections = detections
+    .map((detection, detectionIndex) => ({ detection, detectionIndex }))
+    .filter(({ detectionIndex }) => !detectionMatches.has(detectionIndex))
+    .map(({ detection, detectionIndex }) => ({
+      detectionId: detection.properties.id,
+      bestIoU: pairs.find(pair => pair.detection === detectionIndex)?.iou ?? 0,
+    }));
+
+  return {
+    buildings,
+    unmatchedDetections,
+    summary: summarizeDetection(
+      references.length,
+      detections.length,
+      buildings.filter(building => building.detectionId !== null).map(building => building.iou),
+      allDistances
+    ),
+    vertexDistances: allDistances,
+  };
+};
@@ -0,0 +1,81 @@
+import type { BuildingFeature } from '@/lib/buildings/types';
+import type { DetectorParameters, EvaluationDetector } from '@/lib/evaluation/detectors';
+import type { EvaluationFixture } from '@/lib/evaluation/fixtures';
+import {
+  DEFAULT_MATCH_IOU,
+  evaluateDetection,
+  summarizeDetection,
+  type BuildingEvaluation,
+  type DetectionSummary,
+} from '@/lib/evaluation/metrics';
+
+// 保存済みのタイルに検出器を適用し、正解と比べたレポート（JSON）を作る
+
+export interface FixtureReport {
+  name: string;
+  description?: string;
+  durationMs: number;
+  // 検出中の例外（検出結果0件として集計する）
+  error?: string;
+  summary: DetectionSummary;
+  buildings: BuildingEvaluation[];
+  unmatchedDetections: Array<{ detectionId: number; bestIoU: number }>;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  detector: { name: string; parameters: DetectorParameters };
+  matchIou: number;
+  // 全画像の建物を合算した指標
+  summary: DetectionSummary;
+  fixtures: FixtureReport[];
+}
+
+export const runEvaluation = async (
+  fixtures: EvaluationFixture[],
+  detector: EvaluationDetector,
+  matchIou: number = DEFAULT_MATCH_IOU
+): Promise<EvaluationReport> => {
+  const reports: FixtureReport[] = [];
+  const matchedIoUs: number[] = [];
+  const distances: number[] = [];
+  let references = 0;
+  let detections = 0;
+
+  for (const fixture of fixtures) {
+    const startedAt = Date.now();
+    let detected: BuildingFeature[] = [];
+    let error: string | undefined;
+    try {
+      detected = await detector.detect(fixture);
+    } catch (detectError) {
+      console.error(`Detection error (${fixture.name}):`, detectError);
+      error = detectError instanceof Error ? detectError.message : 'Unknown error';
+    }
+    const durationMs = Date.now() - startedAt;
+
+    const evaluation = evaluateDetection(detected, fixture.references, matchIou);
+    references += fixture.references.length;
+    detections += detected.length;
+    matchedIoUs.push(...evaluation.buildings.filter(building => building.detectionId !== null).map(building => building.iou));
+    distances.push(...evaluation.vertexDistances);
+
+    reports.push({
+      name: fixture.name,
+      description: fixture.description,
+      durationMs,
+      ...(error ? { error } : {}),
+      summary: evaluation.summary,
+      buildings: evaluation.buildings,
+      unmatchedDetections: evaluation.unmatchedDetections,
+    });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    detector: { name: detector.name, parameters: detector.parameters },
+    matchIou,
+    summary: summarizeDetection(references, detections, matchedIoUs, distances),
+    fixtures: reports,
+  };
+};
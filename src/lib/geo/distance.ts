@@ -0,0 +1,43 @@
+import type { BuildingGeometry } from '@/lib/buildings/types';
+import { polygonsOf } from '@/lib/geo/polygon';
+
+// 地点周辺の狭い範囲で使う距離計算（正距円筒図法による近似、数百m程度まで）
+
+const METERS_PER_DEGREE_LAT = 110_574;
+const METERS_PER_DEGREE_LON_AT_EQUATOR = 111_320;
+
+// 基準緯度での経度・緯度1度あたりのメートル数
+export const metersPerDegree = (lat: number): { lon: number; lat: number } => ({
+  lon: METERS_PER_DEGREE_LON_AT_EQUATOR * Math.cos(lat * Math.PI / 180),
+  lat: METERS_PER_DEGREE_LAT,
+});
+
+// 点と線分の距離（平面座標）
+const pointToSegmentDistance = (px: number, py: number, ax: number, ay: number, bx: number, by: number): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+// 経度緯度の点（[lon, lat]）から建物の輪郭までの最短距離（メートル）
+export const distanceToGeometryMeters = (point: number[], geometry: BuildingGeometry): number => {
+  const [lon0, lat0] = point;
+  const scale = metersPerDegree(lat0);
+  let minDistance = Infinity;
+
+  for (const polygon of polygonsOf(geometry)) {
+    for (const ring of polygon) {
+      for (let i = 0; i + 1 < ring.length; i++) {
+        const ax = (ring[i][0] - lon0) * scale.lon;
+        const ay = (ring[i][1] - lat0) * scale.lat;
+        const bx = (ring[i + 1][0] - lon0) * scale.lon;
+        const by = (ring[i + 1][1] - lat0) * scale.lat;
+        minDistance = Math.min(minDistance, pointToSegmentDistance(0, 0, ax, ay, bx, by));
+      }
+    }
+  }
+
+  return minDistance;
+};
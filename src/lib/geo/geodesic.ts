@@ -0,0 +1,102 @@
+import { Geodesic } from 'geographiclib-geodesic';
+
+import type { BuildingGeometry } from '@/lib/buildings/types';
+import { polygonsOf, ringArea } from '@/lib/geo/polygon';
+
+// WGS84楕円体上の測地線による面積・長さの計算（geographiclib）
+
+const geod = Geodesic.WGS84;
+
+// 閉じたリングの面積（m²、向きによらず正）と周長（m）
+const ringAreaPerimeter = (ring: number[][]): { area: number; perimeter: number } => {
+  const polygon = geod.Polygon(false);
+  // 始点と同じ終点は除く（PolygonAreaは自動で閉じる）
+  const points = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+    ? ring.slice(0, -1)
+    : ring;
+  points.forEach(([lon, lat]) => polygon.AddPoint(lat, lon));
+
+  const result = polygon.Compute(false, true);
+  return { area: Math.abs(result.area ?? 0), perimeter: result.perimeter };
+};
+
+// 2点間の測地線距離（m）と始点での方位角（北から時計回り、0〜360度）
+export const geodesicInverse = (from: number[], to: number[]): { distance: number; bearing: number } => {
+  const result = geod.Inverse(from[1], from[0], to[1], to[0], Geodesic.DISTANCE | Geodesic.AZIMUTH);
+  const azimuth = result.azi1 ?? 0;
+  return { distance: result.s12 ?? 0, bearing: (azimuth + 360) % 360 };
+};
+
+// ジオメトリの面積（m²、穴を除く）
+export const geodesicArea = (geometry: BuildingGeometry): number =>
+  polygonsOf(geometry).reduce((total, [outer, ...holes]) =>
+    total + ringAreaPerimeter(outer).area - holes.reduce((sum, hole) => sum + ringAreaPerimeter(hole).area, 0),
+  0);
+
+// 外周リングの周長の合計（m、中庭などの穴の周長は含めない）
+export const geodesicPerimeter = (geometry: BuildingGeometry): number =>
+  polygonsOf(geometry).reduce((total, [outer]) => total + ringAreaPerimeter(outer).perimeter, 0);
+
+// 外周リングの最も長い辺
+export const longestSide = (geometry: BuildingGeometry): { length: number; bearing: number } => {
+  let longest = { length: 0, bearing: 0 };
+
+  for (const [outer] of polygonsOf(geometry)) {
+    for (let i = 0; i + 1 < outer.length; i++) {
+      const { distance, bearing } = geodesicInverse(outer[i], outer[i + 1]);
+      if (distance > longest.length) {
+        longest = { length: distance, bearing };
+      }
+    }
+  }
+
+  return longest;
+};
+
+// 面積重心（[lon, lat]）
+// 重心はアフィン変換で保たれるため、建物程度の範囲では経度緯度のまま計算してよい
+export const centroid = (geometry: BuildingGeometry): [number, number] => {
+  const points = polygonsOf(geometry).flatMap(([outer]) => outer);
+  // 桁落ちを避けるため最初の頂点を原点にして計算する
+  const [originX, originY] = points[0];
+  let weightedX = 0;
+  let weightedY = 0;
+  let totalArea = 0;
+
+  for (const polygon of polygonsOf(geometry)) {
+    polygon.forEach((ring, ringIndex) => {
+      // 外周は正、穴は負の面積として寄与させる
+      const area = ringArea(ring) * (ringIndex === 0 ? 1 : -1);
+      if (area === 0) return;
+
+      let cx = 0;
+      let cy = 0;
+      let cross = 0;
+      for (let i = 0; i + 1 < ring.length; i++) {
+        const x0 = ring[i][0] - originX;
+        const y0 = ring[i][1] - originY;
+        const x1 = ring[i + 1][0] - originX;
+        const y1 = ring[i + 1][1] - originY;
+        const c = x0 * y1 - x1 * y0;
+        cx += (x0 + x1) * c;
+        cy += (y0 + y1) * c;
+        cross += c;
+      }
+      if (cross === 0) return;
+
+      weightedX += cx / (3 * cross) * area;
+      weightedY += cy / (3 * cross) * area;
+      totalArea += area;
+    });
+  }
+
+  if (totalArea === 0) {
+    // 面積のない（つぶれた）ジオメトリは頂点の平均
+    return [
+      points.reduce((sum, point) => sum + point[0], 0) / points.length,
+      points.reduce((sum, point) => sum + point[1], 0) / points.length,
+    ];
+  }
+
+  return [originX + weightedX / totalArea, originY + weightedY / totalArea];
+};
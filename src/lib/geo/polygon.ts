@@ -0,0 +1,72 @@
+import type { BuildingGeometry } from '@/lib/buildings/types';
+
+// 平面（経度緯度をそのまま座標とみなす）でのポリゴン計算
+
+// [西, 南, 東, 北]
+export type Bounds = [number, number, number, number];
+
+// Polygon / MultiPolygon をポリゴンの配列として扱う
+export const polygonsOf = (geometry: BuildingGeometry): number[][][][] =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+// ポリゴンの配列からジオメトリを組み立てる（1つならPolygon）
+export const geometryFromPolygons = (polygons: number[][][][]): BuildingGeometry =>
+  polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+
+// リングの符号付き面積（反時計回りが正）
+export const signedRingArea = (ring: number[][]): number => {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return sum / 2;
+};
+
+export const ringArea = (ring: number[][]): number => Math.abs(signedRingArea(ring));
+
+// 穴を差し引いたポリゴンの面積
+export const polygonArea = (polygon: number[][][]): number =>
+  polygon.reduce((area, ring, index) => index === 0 ? area + ringArea(ring) : area - ringArea(ring), 0);
+
+export const geometryArea = (geometry: BuildingGeometry): number =>
+  polygonsOf(geometry).reduce((area, polygon) => area + polygonArea(polygon), 0);
+
+export const geometryBounds = (geometry: BuildingGeometry): Bounds => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const polygon of polygonsOf(geometry)) {
+    for (const [x, y] of polygon[0]) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  return [minX, minY, maxX, maxY];
+};
+
+// 点がリングの内側にあるか（レイキャスティング）
+export const pointInRing = (point: number[], ring: number[][]): boolean => {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// 点がポリゴンの内側にあるか（穴の中は外側）
+export const pointInPolygon = (point: number[], polygon: number[][][]): boolean =>
+  pointInRing(point, polygon[0]) && !polygon.slice(1).some(hole => pointInRing(point, hole));
+
+export const pointInGeometry = (point: number[], geometry: BuildingGeometry): boolean =>
+  polygonsOf(geometry).some(polygon => pointInPolygon(point, polygon));
+
+// リングを指定の向きに揃える（GeoJSONでは外周が反時計回り、穴が時計回り）
+export const orientRing = (ring: number[][], counterClockwise: boolean): number[][] =>
+  (signedRingArea(ring) > 0) === counterClockwise ? ring : [...ring].reverse();
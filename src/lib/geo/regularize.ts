@@ -0,0 +1,215 @@
+import type { BuildingGeometry } from '@/lib/buildings/types';
+import { metersPerDegree } from '@/lib/geo/distance';
+import { geometryFromPolygons, orientRing, polygonsOf, ringArea } from '@/lib/geo/polygon';
+
+// 直角を基本とする建物輪郭の整形
+// 主方向を推定し、辺を主方向とその直交方向に揃え、ほぼ一直線に並ぶ辺をまとめる（平面座標、メートル）
+
+export interface RegularizationOptions {
+  // これより短い辺は段差とみなして取り除く（m）
+  minEdgeLength?: number;
+  // 主方向からのずれがこの角度（度）以内の辺を揃える。超える辺は斜めの辺として残す
+  maxSnapAngle?: number;
+  // これより短い辺は角度によらず揃える（斜めの壁とみなす最短の長さ、m）
+  minDiagonalLength?: number;
+  // 斜めの辺同士をまとめる角度差（度）
+  collinearAngle?: number;
+  // 整形前後の面積の変化がこの割合を超えたら整形しない
+  maxAreaChange?: number;
+}
+
+export interface RegularizedGeometry {
+  geometry: BuildingGeometry;
+  // 主方向（北から時計回りの度、0〜90）
+  orientation: number;
+}
+
+const DEFAULT_OPTIONS: Required<RegularizationOptions> = {
+  minEdgeLength: 1,
+  maxSnapAngle: 15,
+  minDiagonalLength: 5,
+  collinearAngle: 10,
+  maxAreaChange: 0.2,
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// 辺の向き（h: 主方向、v: 直交方向、null: 斜め）
+type Axis = 'h' | 'v' | null;
+
+interface Segment {
+  start: number[];
+  end: number[];
+  length: number;
+  axis: Axis;
+}
+
+// 直線（点と方向）
+interface Line {
+  point: number[];
+  direction: number[];
+}
+
+const rotate = ([x, y]: number[], angle: number): number[] => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [x * cos - y * sin, x * sin + y * cos];
+};
+
+// 辺の長さの2乗で重み付けした主方向（-45°〜45°、x軸から反時計回りのラジアン）
+// 90°ごとに同じ向きとみなすため、角度を4倍して平均する。段差の短い辺より長い壁を重視する
+export const dominantOrientation = (rings: number[][][]): number => {
+  let sumSin = 0;
+  let sumCos = 0;
+  for (const ring of rings) {
+    for (let i = 0; i + 1 < ring.length; i++) {
+      const dx = ring[i + 1][0] - ring[i][0];
+      const dy = ring[i + 1][1] - ring[i][1];
+      const weight = dx * dx + dy * dy;
+      const angle = Math.atan2(dy, dx);
+      sumSin += weight * Math.sin(4 * angle);
+      sumCos += weight * Math.cos(4 * angle);
+    }
+  }
+  return Math.atan2(sumSin, sumCos) / 4;
+};
+
+const segmentAxis = (dx: number, dy: number, maxSnapAngle: number, snapAlways: boolean): Axis => {
+  const angle = Math.atan2(Math.abs(dy), Math.abs(dx));
+  if (snapAlways) return angle <= Math.PI / 4 ? 'h' : 'v';
+  if (angle <= maxSnapAngle) return 'h';
+  if (Math.PI / 2 - angle <= maxSnapAngle) return 'v';
+  return null;
+};
+
+const segmentAngle = (segment: Segment) =>
+  Math.atan2(segment.end[1] - segment.start[1], segment.end[0] - segment.start[0]);
+
+// 同じ向きに揃う（または斜めでほぼ一直線の）隣り合う辺か
+const isMergeable = (a: Segment, b: Segment, collinearAngle: number): boolean => {
+  if (a.axis !== null || b.axis !== null) return a.axis === b.axis;
+  const difference = Math.abs(segmentAngle(a) - segmentAngle(b)) % Math.PI;
+  return Math.min(difference, Math.PI - difference) <= collinearAngle;
+};
+
+// まとめた辺の直線（揃える辺は中点の長さ加重平均を通る軸に平行な直線）
+const groupLine = (group: Segment[]): Line => {
+  const { axis } = group[0];
+  if (axis === null) {
+    const start = group[0].start;
+    const end = group[group.length - 1].end;
+    return { point: start, direction: [end[0] - start[0], end[1] - start[1]] };
+  }
+
+  const totalLength = group.reduce((sum, segment) => sum + segment.length, 0);
+  const coordinate = axis === 'h' ? 1 : 0;
+  const offset = group.reduce(
+    (sum, segment) => sum + segment.length * (segment.start[coordinate] + segment.end[coordinate]) / 2,
+    0
+  ) / totalLength;
+  return axis === 'h'
+    ? { point: [0, offset], direction: [1, 0] }
+    : { point: [offset, 0], direction: [0, 1] };
+};
+
+// 2直線の交点（平行なら null）
+const intersect = (a: Line, b: Line): number[] | null => {
+  const cross = a.direction[0] * b.direction[1] - a.direction[1] * b.direction[0];
+  if (Math.abs(cross) < 1e-9 * Math.hypot(...a.direction) * Math.hypot(...b.direction)) return null;
+
+  const t = ((b.point[0] - a.point[0]) * b.direction[1] - (b.point[1] - a.point[1]) * b.direction[0]) / cross;
+  return [a.point[0] + t * a.direction[0], a.point[1] + t * a.direction[1]];
+};
+
+// 閉じたリングを orientation の向きに整形する（3点未満に潰れる場合は null）
+export const regularizeRing = (
+  ring: number[][],
+  orientation: number,
+  options: RegularizationOptions = {}
+): number[][] | null => {
+  const { minEdgeLength, maxSnapAngle, minDiagonalLength, collinearAngle } = { ...DEFAULT_OPTIONS, ...options };
+
+  // 主方向がx軸になるよう回転して辺を分類し、短い辺（段差）を除く
+  const points = ring.slice(0, -1).map(point => rotate(point, -orientation));
+  const segments: Segment[] = points
+    .map((start, index) => {
+      const end = points[(index + 1) % points.length];
+      const dx = end[0] - start[0];
+      const dy = end[1] - start[1];
+      const length = Math.hypot(dx, dy);
+      return { start, end, length, axis: segmentAxis(dx, dy, toRadians(maxSnapAngle), length < minDiagonalLength) };
+    })
+    .filter(segment => segment.length >= minEdgeLength);
+  if (segments.length < 3) return null;
+
+  // まとめられない辺の境目から始めて、隣り合う辺をまとめる
+  const first = segments.findIndex((segment, index) =>
+    !isMergeable(segments[(index + segments.length - 1) % segments.length], segment, toRadians(collinearAngle))
+  );
+  if (first === -1) return null;
+
+  const groups: Segment[][] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[(first + i) % segments.length];
+    const current = groups[groups.length - 1];
+    if (current && isMergeable(current[current.length - 1], segment, toRadians(collinearAngle))) {
+      current.push(segment);
+    } else {
+      groups.push([segment]);
+    }
+  }
+  if (groups.length < 3) return null;
+
+  // 隣り合う直線の交点を頂点にする（平行なら元の頂点を使う）
+  const lines = groups.map(groupLine);
+  const vertices: number[][] = [];
+  lines.forEach((line, index) => {
+    const previous = lines[(index + lines.length - 1) % lines.length];
+    const vertex = intersect(previous, line) ?? groups[index][0].start;
+    const last = vertices[vertices.length - 1];
+    if (!last || Math.hypot(vertex[0] - last[0], vertex[1] - last[1]) > 1e-9) {
+      vertices.push(vertex);
+    }
+  });
+  if (vertices.length < 3) return null;
+
+  const result = vertices.map(vertex => rotate(vertex, orientation));
+  return [...result, result[0]];
+};
+
+// 経度緯度のジオメトリを整形する（外周が潰れる、面積が大きく変わる場合は null）
+export const regularizeGeometry = (
+  geometry: BuildingGeometry,
+  options: RegularizationOptions = {}
+): RegularizedGeometry | null => {
+  const { maxAreaChange } = { ...DEFAULT_OPTIONS, ...options };
+  const polygons = polygonsOf(geometry);
+  const [lon0, lat0] = polygons[0][0][0];
+  const scale = metersPerDegree(lat0);
+  const toMeters = (ring: number[][]) => ring.map(([lon, lat]) => [(lon - lon0) * scale.lon, (lat - lat0) * scale.lat]);
+  const toLonLat = (ring: number[][]) => ring.map(([x, y]) => [lon0 + x / scale.lon, lat0 + y / scale.lat]);
+
+  const projected = polygons.map(polygon => polygon.map(toMeters));
+  const orientation = dominantOrientation(projected.flat());
+
+  const regularized: number[][][][] = [];
+  for (const [outer, ...holes] of projected) {
+    const regularizedOuter = regularizeRing(outer, orientation, options);
+    if (!regularizedOuter) return null;
+
+    // 潰れた穴は除く
+    const regularizedHoles = holes
+      .map(hole => regularizeRing(hole, orientation, options))
+      .filter((hole): hole is number[][] => hole !== null);
+
+    const originalArea = ringArea(outer) - holes.reduce((sum, hole) => sum + ringArea(hole), 0);
+    const regularizedArea = ringArea(regularizedOuter) - regularizedHoles.reduce((sum, hole) => sum + ringArea(hole), 0);
+    if (Math.abs(regularizedArea - originalArea) > maxAreaChange * originalArea) return null;
+
+    regularized.push([regularizedOuter, ...regularizedHoles].map((ring, index) => orientRing(toLonLat(ring), index === 0)));
+  }
+
+  // x軸（東）から反時計回りの角度を、北から時計回りの方位（0〜90°）に直す
+  const bearing = ((90 - orientation * 180 / Math.PI) % 90 + 90) % 90;
+  return { geometry: geometryFromPolygons(regularized), orientation: bearing };
+};
@@ -0,0 +1,64 @@
+// 折れ線・リングの簡略化（Douglas-Peucker法、平面座標）
+
+// 点と線分の距離
+const pointToSegmentDistance = (point: number[], a: number[], b: number[]): number => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSquared));
+  return Math.hypot(point[0] - (a[0] + t * dx), point[1] - (a[1] + t * dy));
+};
+
+// 両端を残して、許容誤差以内の中間点を取り除く
+export const simplifyLine = (points: number[][], tolerance: number): number[][] => {
+  if (points.length <= 2) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = pointToSegmentDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = 1;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index] === 1);
+};
+
+// 閉じたリングを簡略化する（始点と最も遠い点で2本の折れ線に分けて処理）
+// 3点未満に潰れる場合は null
+export const simplifyRing = (ring: number[][], tolerance: number): number[][] | null => {
+  const points = ring.slice(0, -1);
+  if (points.length < 3) return null;
+
+  let split = 1;
+  let maxDistance = -1;
+  points.forEach((point, index) => {
+    const distance = Math.hypot(point[0] - points[0][0], point[1] - points[0][1]);
+    if (distance > maxDistance) {
+      split = index;
+      maxDistance = distance;
+    }
+  });
+
+  const first = simplifyLine(points.slice(0, split + 1), tolerance);
+  const second = simplifyLine([...points.slice(split), points[0]], tolerance);
+  const simplified = [...first, ...second.slice(1)];
+
+  return simplified.length >= 4 ? simplified : null;
+};
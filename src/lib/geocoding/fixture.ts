@@ -0,0 +1,74 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+import { geodesicInverse } from '@/lib/geo/geodesic';
+import type { GeocodingProvider } from '@/lib/geocoding/provider';
+
+// ローカルの地名データによる住所検索・逆ジオコーディング（ネットワークを使わない。オフラインでの動作確認用）
+// 既定の検索先には含めない。GEOCODING_PROVIDERS（または providers パラメータ）で指定したときだけ使う
+// 住所検索は、検索語が地名データの住所と一致するか、住所の先頭部分である場合だけ該当とみなす
+//
+// GEOCODING_FIXTURE_FILE に次の形の JSON を置くと、組み込みのデータの代わりに使う
+//   [{ "address": "東京都渋谷区渋谷", "lat": 35.658034, "lon": 139.701636 }, ...]
+
+// 逆ジオコーディングで地名を返す距離の上限（m）
+const REVERSE_MAX_DISTANCE = 1000;
+
+export interface GeocodingFixtureEntry {
+  address: string;
+  lat: number;
+  lon: number;
+}
+
+// 組み込みの地名（以前の画面のフォールバック座標）
+export const DEFAULT_GEOCODING_FIXTURES: GeocodingFixtureEntry[] = [
+  { address: '東京都渋谷区渋谷', lat: 35.658034, lon: 139.701636 },
+  { address: '東京都新宿区新宿', lat: 35.689521, lon: 139.691704 },
+  { address: '東京都豊島区池袋', lat: 35.729503, lon: 139.7109 },
+  { address: '東京都', lat: 35.6762, lon: 139.6503 },
+  { address: '東京都中央区銀座', lat: 35.671946, lon: 139.763965 },
+  { address: '東京都千代田区外神田', lat: 35.698683, lon: 139.774219 },
+  { address: '東京都渋谷区神宮前', lat: 35.670168, lon: 139.701636 },
+  { address: '東京都港区北青山', lat: 35.665428, lon: 139.71216 },
+];
+
+const isFixtureEntry = (value: unknown): value is GeocodingFixtureEntry => {
+  const entry = value as Partial<GeocodingFixtureEntry> | null;
+  return typeof entry?.address === 'string' && entry.address !== ''
+    && Number.isFinite(entry.lat) && Number.isFinite(entry.lon);
+};
+
+// 地名データを読み込む（ファイルは検索のたびに読むので、書き換えはすぐに反映される）
+const loadFixtures = async (): Promise<GeocodingFixtureEntry[]> => {
+  const file = process.env.GEOCODING_FIXTURE_FILE;
+  if (!file) return DEFAULT_GEOCODING_FIXTURES;
+
+  const entries: unknown = JSON.parse(await readFile(path.resolve(file), 'utf8'));
+  if (!Array.isArray(entries)) throw new Error(`${file} must contain a JSON array`);
+  return entries.filter(isFixtureEntry);
+};
+
+export const fixtureGeocoder: GeocodingProvider = {
+  name: 'fixture',
+  label: 'ローカルの地名データ',
+  // 住所が一致する地名を先に返す
+  geocode: async query => {
+    const prefix = query.trim();
+    if (!prefix) return [];
+
+    const fixtures = await loadFixtures();
+    return fixtures
+      .filter(entry => entry.address.startsWith(prefix))
+      .sort((a, b) => Number(b.address === prefix) - Number(a.address === prefix))
+      .map(({ address, lat, lon }) => ({ lat, lon, address }));
+  },
+  // 近い地名から順に返す
+  reverse: async (lat, lon) => {
+    const fixtures = await loadFixtures();
+    return fixtures
+      .map(entry => ({ entry, distance: geodesicInverse([lon, lat], [entry.lon, entry.lat]).distance }))
+      .filter(({ distance }) => distance <= REVERSE_MAX_DISTANCE)
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ entry }) => ({ lat: entry.lat, lon: entry.lon, address: entry.address }));
+  },
+};
@@ -0,0 +1,67 @@
+import { fixtureGeocoder } from '@/lib/geocoding/fixture';
+import { googleGeocoder } from '@/lib/geocoding/google';
+import { gsiGeocoder } from '@/lib/geocoding/gsi';
+import { nominatimGeocoder } from '@/lib/geocoding/nominatim';
+import {
+  runGeocodingProviders,
+  runReverseGeocodingProviders,
+  type GeocodeOptions,
+  type GeocodeResponse,
+  type GeocodingProvider,
+  type ReverseGeocodeResponse,
+} from '@/lib/geocoding/provider';
+
+// サーバー側の住所検索・逆ジオコーディング（検索先の一覧と、検索先を試す順の決定）
+
+export const GEOCODERS = {
+  google: googleGeocoder,
+  gsi: gsiGeocoder,
+  nominatim: nominatimGeocoder,
+  fixture: fixtureGeocoder,
+} as const satisfies Record<string, GeocodingProvider>;
+
+export type GeocoderName = keyof typeof GEOCODERS;
+
+export const isGeocoderName = (value: string): value is GeocoderName =>
+  Object.prototype.hasOwnProperty.call(GEOCODERS, value);
+
+export const supportsReverseGeocoding = (name: GeocoderName): boolean =>
+  GEOCODERS[name].reverse !== undefined;
+
+// 環境変数で順序を指定しない場合の既定値（Google はAPIキーがあるときだけ先頭に加える）
+// ローカルの地名データ（fixture）は実際の検索結果と区別できないため、指定したときだけ使う
+export const DEFAULT_GEOCODERS: GeocoderName[] = ['gsi', 'nominatim'];
+
+// 検索先を試す順（環境変数 GEOCODING_PROVIDERS のカンマ区切り。未登録の名前は無視する）
+export const configuredGeocoders = (): GeocoderName[] => {
+  const configured = (process.env.GEOCODING_PROVIDERS ?? '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+  const unknown = configured.filter(name => !isGeocoderName(name));
+  if (unknown.length > 0) console.warn('Unknown geocoding provider in GEOCODING_PROVIDERS:', unknown);
+
+  const order = configured.filter(isGeocoderName);
+  if (order.length > 0) return order;
+  return process.env.GOOGLE_MAPS_API_KEY ? ['google', ...DEFAULT_GEOCODERS] : DEFAULT_GEOCODERS;
+};
+
+export interface GeocodeAddressOptions extends GeocodeOptions {
+  // 検索先を試す順（省略時は configuredGeocoders()）
+  providers?: GeocoderName[];
+}
+
+export const geocodeAddress = (query: string, options: GeocodeAddressOptions = {}): Promise<GeocodeResponse> => {
+  const { providers = configuredGeocoders(), ...geocodeOptions } = options;
+  return runGeocodingProviders(GEOCODERS, providers, query, geocodeOptions);
+};
+
+// 緯度経度から住所を求める（省略時は configuredGeocoders() のうち逆ジオコーディングに対応する検索先の順）
+export const reverseGeocodeLocation = (
+  lat: number,
+  lon: number,
+  options: GeocodeAddressOptions = {}
+): Promise<ReverseGeocodeResponse> => {
+  const { providers = configuredGeocoders().filter(supportsReverseGeocoding), ...geocodeOptions } = options;
+  return runReverseGeocodingProviders(GEOCODERS, providers, lat, lon, geocodeOptions);
+};
@@ -0,0 +1,53 @@
+import axios from 'axios';
+
+import type { GeocodingProvider } from '@/lib/geocoding/provider';
+
+// Google Maps Geocoding API（APIキーはサーバー側の環境変数 GOOGLE_MAPS_API_KEY から読み、ブラウザには渡さない）
+export const GOOGLE_GEOCODING_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+
+interface GoogleGeocodingResponse {
+  results: Array<{
+    geometry: {
+      location: {
+        lat: number;
+        lng: number;
+      };
+    };
+    formatted_address: string;
+  }>;
+  status: string;
+  error_message?: string;
+}
+
+// 住所の先頭の「日本、〒150-0043 」を除く
+const stripCountryAndPostalCode = (address: string): string =>
+  address.replace(/^日本、/, '').replace(/^〒\d{3}-\d{4}\s*/, '');
+
+// address（住所検索）か latlng（逆ジオコーディング）を指定して問い合わせる
+const requestGoogleGeocoding = async (params: Record<string, string>, signal?: AbortSignal) => {
+  const key = process.env.GOOGLE_MAPS_API_KEY;
+  if (!key) throw new Error('GOOGLE_MAPS_API_KEY is not set');
+
+  const response = await axios.get<GoogleGeocodingResponse>(GOOGLE_GEOCODING_URL, {
+    params: { ...params, key, language: 'ja', region: 'jp' },
+    timeout: 10000,
+    signal,
+  });
+
+  const { status, results, error_message: message } = response.data;
+  if (status === 'ZERO_RESULTS') return [];
+  if (status !== 'OK') throw new Error(`Google Geocoding API returned ${status}${message ? `: ${message}` : ''}`);
+
+  return results.map(result => ({
+    lat: result.geometry.location.lat,
+    lon: result.geometry.location.lng,
+    address: stripCountryAndPostalCode(result.formatted_address),
+  }));
+};
+
+export const googleGeocoder: GeocodingProvider = {
+  name: 'google',
+  label: 'Google Geocoding API',
+  geocode: (query, { signal }) => requestGoogleGeocoding({ address: query }, signal),
+  reverse: (lat, lon, { signal }) => requestGoogleGeocoding({ latlng: `${lat},${lon}` }, signal),
+};
@@ -0,0 +1,85 @@
+import axios from 'axios';
+
+import type { GeocodingProvider } from '@/lib/geocoding/provider';
+
+// 国土地理院の住所検索API・逆ジオコーダー（APIキー不要。国内の住所・地名のみ）
+export const GSI_ADDRESS_SEARCH_URL = 'https://msearch.gsi.go.jp/address-search/AddressSearch';
+export const GSI_REVERSE_GEOCODER_URL = 'https://mreversegeocoder.gsi.go.jp/reverse-geocoder/LonLatToAddress';
+// 逆ジオコーダーが返す市区町村コードと名前の対応表（地理院地図が使うもの）
+export const GSI_MUNICIPALITY_TABLE_URL = 'https://maps.gsi.go.jp/js/muni.js';
+
+interface GsiAddressFeature {
+  geometry: {
+    // [経度, 緯度]
+    coordinates: [number, number];
+  };
+  properties: {
+    title: string;
+  };
+}
+
+interface GsiReverseGeocodeResponse {
+  // 海上など住所のない地点では results がない
+  results?: {
+    muniCd: string;
+    // 町字（大字・丁目）。ない場合は全角の「－」
+    lv01Nm: string;
+  };
+}
+
+// 市区町村コード（先頭の0を除いた数値）→「都道府県名＋市区町村名」
+let municipalities: Promise<Map<number, string>> | null = null;
+
+// muni.js の各行: GSI.MUNI_ARRAY["13113"] = '13,東京都,13113,渋谷区';
+const MUNICIPALITY_LINE = /MUNI_ARRAY\["(\d+)"\]\s*=\s*'\d+,([^,]+),\d+,([^']+)'/g;
+
+export const parseMunicipalityTable = (source: string): Map<number, string> =>
+  new Map([...source.matchAll(MUNICIPALITY_LINE)].map(([, code, prefecture, municipality]) => [
+    Number(code),
+    // 政令指定都市の区は「横浜市　鶴見区」のように空白で区切られている
+    `${prefecture}${municipality.replace(/\s/g, '')}`,
+  ]));
+
+// 対応表は一度だけ取得する（失敗したら次の検索で取り直す）
+const loadMunicipalities = (): Promise<Map<number, string>> => {
+  municipalities ??= axios.get<string>(GSI_MUNICIPALITY_TABLE_URL, { responseType: 'text', timeout: 10000 })
+    .then(response => parseMunicipalityTable(response.data))
+    .catch(error => {
+      municipalities = null;
+      throw error;
+    });
+  return municipalities;
+};
+
+export const gsiGeocoder: GeocodingProvider = {
+  name: 'gsi',
+  label: '国土地理院 住所検索',
+  geocode: async (query, { signal }) => {
+    const response = await axios.get<GsiAddressFeature[]>(GSI_ADDRESS_SEARCH_URL, {
+      params: { q: query },
+      timeout: 10000,
+      signal,
+    });
+
+    return (response.data ?? []).map(feature => ({
+      lat: feature.geometry.coordinates[1],
+      lon: feature.geometry.coordinates[0],
+      address: feature.properties.title,
+    }));
+  },
+  reverse: async (lat, lon, { signal }) => {
+    const [response, table] = await Promise.all([
+      axios.get<GsiReverseGeocodeResponse>(GSI_REVERSE_GEOCODER_URL, { params: { lat, lon }, timeout: 10000, signal }),
+      loadMunicipalities(),
+    ]);
+
+    const result = response.data.results;
+    if (!result) return [];
+
+    const municipality = table.get(Number(result.muniCd));
+    if (!municipality) throw new Error(`Unknown municipality code: ${result.muniCd}`);
+
+    const locality = !result.lv01Nm || result.lv01Nm === '－' ? '' : result.lv01Nm;
+    return [{ lat, lon, address: `${municipality}${locality}` }];
+  },
+};
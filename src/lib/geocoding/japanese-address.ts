@@ -0,0 +1,248 @@
+// 日本の住所の正規化と構成要素への分解
+// 全角・半角、漢数字、丁目・番地・号とハイフンの表記ゆれをそろえ、見つからない場合に号 → 番 → 丁目 → 町 → 市区町村 → 都道府県と
+// 1段ずつ粗くして検索できるようにする（町名の辞書は持たないため、表記から推測できる範囲で分解する）
+
+export interface JapaneseAddress {
+  prefecture?: string;
+  // 市区町村（政令指定都市の区・郡を含む。例: 渋谷区、横浜市鶴見区、西多摩郡奥多摩町）
+  city?: string;
+  // 町名・大字（「大字」は除く）
+  town?: string;
+  // 小字（「字」は除く）
+  aza?: string;
+  chome?: number;
+  // 番・番地
+  ban?: number;
+  go?: number;
+  // 番地の後ろの建物名・部屋番号など（検索には使わない）
+  building?: string;
+}
+
+export const PREFECTURES = [
+  '北海道', '青森県', '岩手県', '宮城県', '秋田県', '山形県', '福島県',
+  '茨城県', '栃木県', '群馬県', '埼玉県', '千葉県', '東京都', '神奈川県',
+  '新潟県', '富山県', '石川県', '福井県', '山梨県', '長野県', '岐阜県', '静岡県', '愛知県',
+  '三重県', '滋賀県', '京都府', '大阪府', '兵庫県', '奈良県', '和歌山県',
+  '鳥取県', '島根県', '岡山県', '広島県', '山口県',
+  '徳島県', '香川県', '愛媛県', '高知県',
+  '福岡県', '佐賀県', '長崎県', '熊本県', '大分県', '宮崎県', '鹿児島県', '沖縄県',
+] as const;
+
+// 都道府県を省略した住所から都道府県を推測するための市（政令指定都市と県庁所在地）
+const CITY_PREFECTURES: Record<string, string> = {
+  札幌市: '北海道', 青森市: '青森県', 盛岡市: '岩手県', 仙台市: '宮城県', 秋田市: '秋田県', 山形市: '山形県',
+  福島市: '福島県', 水戸市: '茨城県', 宇都宮市: '栃木県', 前橋市: '群馬県', さいたま市: '埼玉県', 千葉市: '千葉県',
+  横浜市: '神奈川県', 川崎市: '神奈川県', 相模原市: '神奈川県', 新潟市: '新潟県', 富山市: '富山県', 金沢市: '石川県',
+  福井市: '福井県', 甲府市: '山梨県', 長野市: '長野県', 岐阜市: '岐阜県', 静岡市: '静岡県', 浜松市: '静岡県',
+  名古屋市: '愛知県', 津市: '三重県', 大津市: '滋賀県', 京都市: '京都府', 大阪市: '大阪府', 堺市: '大阪府',
+  神戸市: '兵庫県', 奈良市: '奈良県', 和歌山市: '和歌山県', 鳥取市: '鳥取県', 松江市: '島根県', 岡山市: '岡山県',
+  広島市: '広島県', 山口市: '山口県', 徳島市: '徳島県', 高松市: '香川県', 松山市: '愛媛県', 高知市: '高知県',
+  北九州市: '福岡県', 福岡市: '福岡県', 佐賀市: '佐賀県', 長崎市: '長崎県', 熊本市: '熊本県', 大分市: '大分県',
+  宮崎市: '宮崎県', 鹿児島市: '鹿児島県', 那覇市: '沖縄県',
+};
+
+// 東京23区（市の付かない「○○区」は東京都とみなす）
+const TOKYO_WARDS = [
+  '千代田区', '中央区', '港区', '新宿区', '文京区', '台東区', '墨田区', '江東区', '品川区', '目黒区', '大田区', '世田谷区',
+  '渋谷区', '中野区', '杉並区', '豊島区', '北区', '荒川区', '板橋区', '練馬区', '足立区', '葛飾区', '江戸川区',
+];
+
+// 市区町村: 「○○郡○○町（村）」「○○市（○○区）」「○○区」
+// 市の名前に市を含むもの（市川市・四日市市など）も1つの市として読む
+const CITY_PATTERN = /^(?:[^市区郡]+郡[^町村]+?[町村]|(?:市[^市区郡]+|[^市区郡]+)(?:市(?=市))?市(?:[^市区郡]+?区)?|[^市区郡]+?区)/;
+
+// 丁目・番地・号の数字の並び（「2-24-1」「2丁目24番1号」「123番地の4」）
+// 北海道の「北1条西」や岩手の「第1地割」のような町名の中の数字は町名として扱う
+const ADDRESS_NUMBER_PATTERN = /^(.*?)(\d+(?:丁目|番地|番|号|-)?(?:\d+(?:丁目|番地|番|号|-)?)*)(?![\d条線]|地割)(.*)$/;
+
+const HYPHENS = '-ー‐‑–—−―';
+
+// 日本語の文字（前後の空白を取り除く。英単語の間の空白は残す）
+const JAPANESE_CHARACTER = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}々〆ヶー〒、。';
+
+const KANJI_DIGITS: Record<string, number> = {
+  〇: 0, 零: 0, 一: 1, 壱: 1, 二: 2, 弐: 2, 三: 3, 参: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+const KANJI_UNITS: Record<string, number> = { 十: 10, 拾: 10, 百: 100, 千: 1000 };
+const KANJI_NUMBER = `[${Object.keys(KANJI_DIGITS).join('')}${Object.keys(KANJI_UNITS).join('')}]+`;
+
+// 漢数字を数値にする（「二十四」「百二」のような位取りの表記と「二〇二四」のような数字を並べた表記）
+export const kanjiToNumber = (text: string): number | null => {
+  const chars = [...text];
+  if (chars.length === 0 || !chars.every(char => char in KANJI_DIGITS || char in KANJI_UNITS)) return null;
+  if (!chars.some(char => char in KANJI_UNITS)) return Number(chars.map(char => KANJI_DIGITS[char]).join(''));
+
+  let total = 0;
+  let digit: number | null = null;
+  for (const char of chars) {
+    if (char in KANJI_UNITS) {
+      total += (digit ?? 1) * KANJI_UNITS[char];
+      digit = null;
+    } else {
+      digit = KANJI_DIGITS[char];
+    }
+  }
+  return total + (digit ?? 0);
+};
+
+// 数値を位取りの漢数字にする（丁目の表記に使う。1〜9999）
+export const numberToKanji = (value: number): string => {
+  if (!Number.isInteger(value) || value <= 0 || value >= 10000) return String(value);
+
+  const digits = ['', '一', '二', '三', '四', '五', '六', '七', '八', '九'];
+  return ([[1000, '千'], [100, '百'], [10, '十'], [1, '']] as const)
+    .map(([unit, label]) => {
+      const digit = Math.floor(value / unit) % 10;
+      if (digit === 0) return '';
+      // 十・百・千の1は省く（「十二」「百」）
+      return `${digit === 1 && unit > 1 ? '' : digits[digit]}${label}`;
+    })
+    .join('');
+};
+
+const convertKanjiNumber = (text: string) => String(kanjiToNumber(text) ?? text);
+
+// 表記ゆれをそろえる
+// 全角英数字 → 半角、日本語の文字の前後の空白の除去、数字の間のハイフン類・「の」→「-」、丁目・番地・号の漢数字 → 算用数字
+// 町名の中の漢数字（一番町・麻布十番・六本木など）は変えない
+export const normalizeJapaneseAddress = (input: string): string =>
+  input
+    .normalize('NFKC')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(new RegExp(`(?<=[${JAPANESE_CHARACTER}]) | (?=[${JAPANESE_CHARACTER}])`, 'gu'), '')
+    .replace(new RegExp(`(?<=\\d)[${HYPHENS}](?=\\d)`, 'g'), '-')
+    .replace(/^(?:日本国?[、,]?)?(?:〒?\d{3}-\d{4})?/, '')
+    .replace(new RegExp(`(${KANJI_NUMBER})(丁目|番地|号)`, 'g'), (_, number: string, marker: string) =>
+      `${convertKanjiNumber(number)}${marker}`
+    )
+    // 番は丁目の直後か、号が続く場合だけ番号とみなす
+    .replace(new RegExp(`(?<=丁目)(${KANJI_NUMBER})番(?!町)|(${KANJI_NUMBER})番(?=\\d+号)`, 'g'), (_, afterChome?: string, beforeGo?: string) =>
+      `${convertKanjiNumber(afterChome ?? beforeGo ?? '')}番`
+    )
+    .replace(/(?<=\d|番地|番)[のノ](?=\d)/g, '-')
+    .replace(/(?<=丁目|番地|番)-(?=\d)/g, '');
+
+// 都道府県を省略した住所の都道府県を市区町村から推測する
+export const inferPrefecture = (city: string): string | undefined => {
+  const known = Object.keys(CITY_PREFECTURES).find(name => city.startsWith(name));
+  if (known) return CITY_PREFECTURES[known];
+  return TOKYO_WARDS.includes(city) ? '東京都' : undefined;
+};
+
+// 都道府県を読み取る（「神奈川横浜市」のように都・府・県を省いた表記は、続きが市区町村として読める場合だけ認める）
+const splitPrefecture = (text: string): [string | undefined, string] => {
+  const prefecture = PREFECTURES.find(name => text.startsWith(name));
+  if (prefecture) return [prefecture, text.slice(prefecture.length)];
+
+  const abbreviated = PREFECTURES.find(name => {
+    const base = name.replace(/[都府県]$/, '');
+    return base !== name && text.startsWith(base) && CITY_PATTERN.test(text.slice(base.length));
+  });
+  return abbreviated
+    ? [abbreviated, text.slice(abbreviated.replace(/[都府県]$/, '').length)]
+    : [undefined, text];
+};
+
+// 大字・字を取り除き、大字と小字に分ける
+const splitTown = (text: string): Pick<JapaneseAddress, 'town' | 'aza'> => {
+  const town = text.replace(/-+$/, '');
+  const oaza = /^大字(.+?)(?:字(.+))?$/.exec(town);
+  if (oaza) return { town: oaza[1], aza: oaza[2] };
+  if (town.startsWith('字') && town.length > 1) return { town: town.slice(1) };
+  return { town: town || undefined };
+};
+
+const NUMBER_SLOTS = ['chome', 'ban', 'go'] as const;
+const SLOT_OF_MARKER: Record<string, typeof NUMBER_SLOTS[number]> = { 丁目: 'chome', 番地: 'ban', 番: 'ban', 号: 'go' };
+
+// 数字の並びを丁目・番・号に割り当てる
+// 丁目・番・号の付いた数字はそのまま、付いていない数字（ハイフン区切り）は前後の数字から位置を決める
+// 区切りだけの数字が3つなら丁目-番-号、2つ以下なら番-号とみなす
+const assignNumbers = (block: string): Pick<JapaneseAddress, 'chome' | 'ban' | 'go'> & { extra: string[] } => {
+  const tokens = [...block.matchAll(/(\d+)(丁目|番地|番|号|-)?/g)].map(([, number, marker]) => ({
+    value: Number(number),
+    slot: marker ? SLOT_OF_MARKER[marker] : undefined,
+  }));
+
+  const firstMarked = tokens.findIndex(token => token.slot !== undefined);
+  let next = firstMarked === -1
+    ? (tokens.length >= 3 ? 0 : 1)
+    : Math.max(0, NUMBER_SLOTS.indexOf(tokens[firstMarked].slot!) - firstMarked);
+
+  const numbers: Pick<JapaneseAddress, 'chome' | 'ban' | 'go'> & { extra: string[] } = { extra: [] };
+  for (const token of tokens) {
+    const index = token.slot ? NUMBER_SLOTS.indexOf(token.slot) : next;
+    const slot = NUMBER_SLOTS[index];
+    if (slot && numbers[slot] === undefined) {
+      numbers[slot] = token.value;
+    } else {
+      // 号の後ろの数字（部屋番号など）
+      numbers.extra.push(String(token.value));
+    }
+    next = index + 1;
+  }
+  return numbers;
+};
+
+// 住所を構成要素に分ける
+export const parseJapaneseAddress = (input: string): JapaneseAddress => {
+  const [prefecture, afterPrefecture] = splitPrefecture(normalizeJapaneseAddress(input));
+
+  const city = CITY_PATTERN.exec(afterPrefecture)?.[0];
+  const afterCity = city ? afterPrefecture.slice(city.length) : afterPrefecture;
+
+  const match = ADDRESS_NUMBER_PATTERN.exec(afterCity);
+  const { extra, ...numbers } = match ? assignNumbers(match[2]) : { extra: [] };
+  const building = [extra.join('-'), match?.[3].trim() ?? ''].filter(Boolean).join(' ').replace(/^-+/, '');
+
+  return {
+    prefecture: prefecture ?? (city ? inferPrefecture(city) : undefined),
+    city,
+    ...splitTown(match ? match[1] : afterCity),
+    ...numbers,
+    building: building || undefined,
+  };
+};
+
+// 細かい順の住所の段階
+export const ADDRESS_LEVELS = ['go', 'ban', 'chome', 'town', 'city', 'prefecture'] as const;
+export type AddressLevel = typeof ADDRESS_LEVELS[number];
+
+// 検索語の段階（input: 住所として分解できなかった入力をそのまま使う）
+export type AddressQueryLevel = AddressLevel | 'input';
+
+// 指定の段階までの住所の表記（丁目は漢数字、番・号はハイフン区切り。例: 東京都渋谷区道玄坂二丁目24-1）
+export const formatJapaneseAddress = (address: JapaneseAddress, level: AddressLevel = 'go'): string => {
+  const depth = ADDRESS_LEVELS.indexOf(level);
+  const parts = [address.prefecture];
+  if (depth <= ADDRESS_LEVELS.indexOf('city')) parts.push(address.city);
+  if (depth <= ADDRESS_LEVELS.indexOf('town')) parts.push(address.town, address.aza);
+  if (depth <= ADDRESS_LEVELS.indexOf('chome') && address.chome !== undefined) {
+    parts.push(`${numberToKanji(address.chome)}丁目`);
+  }
+  if (depth <= ADDRESS_LEVELS.indexOf('ban') && address.ban !== undefined) parts.push(String(address.ban));
+  if (depth <= ADDRESS_LEVELS.indexOf('go') && address.go !== undefined) {
+    parts.push(address.ban !== undefined ? `-${address.go}` : `${address.go}号`);
+  }
+  return parts.filter(Boolean).join('');
+};
+
+// 検索に使う住所の表記を細かい順に並べる（住所にない段階は飛ばす）
+// どの段階も作れない場合は、正規化した入力をそのまま使う
+export const addressFallbackQueries = (
+  address: JapaneseAddress,
+  input?: string
+): Array<{ level: AddressQueryLevel; query: string }> => {
+  const queries: Array<{ level: AddressQueryLevel; query: string }> = [];
+  for (const level of ADDRESS_LEVELS) {
+    if (address[level] === undefined) continue;
+
+    const query = formatJapaneseAddress(address, level);
+    if (query && !queries.some(existing => existing.query === query)) queries.push({ level, query });
+  }
+
+  const normalized = input === undefined ? '' : normalizeJapaneseAddress(input);
+  if (queries.length === 0 && normalized) queries.push({ level: 'input', query: normalized });
+  return queries;
+};
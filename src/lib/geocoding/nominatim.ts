@@ -0,0 +1,82 @@
+import axios from 'axios';
+
+import type { GeocodingProvider } from '@/lib/geocoding/provider';
+
+// Nominatim（OpenStreetMapの住所検索）
+// 利用規約により、アプリを識別できる User-Agent を付け、1秒に1回までに抑える
+export const NOMINATIM_SEARCH_URL = 'https://nominatim.openstreetmap.org/search';
+export const NOMINATIM_REVERSE_URL = 'https://nominatim.openstreetmap.org/reverse';
+
+const USER_AGENT = 'building-map-app';
+
+// リクエストの間隔の下限（利用規約の上限は1秒に1回）
+const MIN_REQUEST_INTERVAL_MS = 1000;
+
+// サーバー全体でリクエストを1つずつ順に送る（前のリクエストの開始から MIN_REQUEST_INTERVAL_MS 空ける）
+let queue: Promise<void> = Promise.resolve();
+let lastRequestAt = 0;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const throttled = <T>(request: () => Promise<T>): Promise<T> => {
+  const run = queue.then(async () => {
+    const wait = lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastRequestAt = Date.now();
+    return request();
+  });
+  queue = run.then(() => undefined, () => undefined);
+  return run;
+};
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+// 地点に何もない場合は error だけが返る
+type NominatimReverseResponse = NominatimPlace | { error: string };
+
+// display_name（「1, 24, 道玄坂二丁目, 渋谷区, 東京都, 150-0043, 日本」のような小さい単位から順の表記）を
+// 日本の住所の順に並べ替える（国名と郵便番号は除き、続く番地・号はハイフンでつなぐ）
+export const japaneseAddressOf = (displayName: string): string =>
+  displayName
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part !== '日本' && !/^\d{3}-?\d{4}$/.test(part))
+    .reverse()
+    .reduce((address, part, index, parts) =>
+      index > 0 && /^\d+$/.test(part) && /^\d+$/.test(parts[index - 1]) ? `${address}-${part}` : `${address}${part}`,
+    '');
+
+export const nominatimGeocoder: GeocodingProvider = {
+  name: 'nominatim',
+  label: 'Nominatim（OpenStreetMap）',
+  geocode: async (query, { limit, signal }) => {
+    const response = await throttled(() => axios.get<NominatimPlace[]>(NOMINATIM_SEARCH_URL, {
+      params: { q: query, format: 'jsonv2', countrycodes: 'jp', 'accept-language': 'ja', limit },
+      headers: { 'User-Agent': USER_AGENT },
+      timeout: 10000,
+      signal,
+    }));
+
+    return response.data.map(place => ({
+      lat: Number(place.lat),
+      lon: Number(place.lon),
+      address: japaneseAddressOf(place.display_name),
+    }));
+  },
+  reverse: async (lat, lon, { signal }) => {
+    const response = await throttled(() => axios.get<NominatimReverseResponse>(NOMINATIM_REVERSE_URL, {
+      params: { lat, lon, format: 'jsonv2', zoom: 18, 'accept-language': 'ja' },
+      headers: { 'User-Agent': USER_AGENT },
+      timeout: 10000,
+      signal,
+    }));
+
+    const place = response.data;
+    if ('error' in place) return [];
+    return [{ lat: Number(place.lat), lon: Number(place.lon), address: japaneseAddressOf(place.display_name) }];
+  },
+};
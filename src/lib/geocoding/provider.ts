@@ -0,0 +1,144 @@
+// 住所検索（ジオコーディング・逆ジオコーディング）の共通の形と、複数の検索先を順に試す処理
+// Google・国土地理院・Nominatim・ローカルの地名データのどれを使っても同じ形の結果を返す
+
+export interface GeocodeCandidate {
+  lat: number;
+  lon: number;
+  // 検索先が返した住所・地名の表記
+  address: string;
+}
+
+export interface GeocodeResult extends GeocodeCandidate {
+  // 結果を返した検索先
+  provider: string;
+}
+
+export interface GeocodeOptions {
+  // 検索先ごとの結果の最大件数
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface GeocodingProviderInfo {
+  label: string;
+}
+
+export interface GeocodingProvider extends GeocodingProviderInfo {
+  name: string;
+  // 見つからなければ空配列。設定の不足や通信の失敗は例外にする
+  geocode: (query: string, options: GeocodeOptions) => Promise<GeocodeCandidate[]>;
+  // 緯度経度から住所を求める（逆ジオコーディング。対応しない検索先は省略する）
+  reverse?: (lat: number, lon: number, options: GeocodeOptions) => Promise<GeocodeCandidate[]>;
+}
+
+export interface GeocodingReport {
+  provider: string;
+  // ok: 結果あり / empty: 結果なし / error: 失敗 / skipped: 先に結果が見つかったため実行していない
+  status: 'ok' | 'empty' | 'error' | 'skipped';
+  resultCount: number;
+  durationMs: number;
+  error?: string;
+}
+
+// /api/geocode のレスポンス
+export interface GeocodeResponse {
+  query: string;
+  // 最初に結果が見つかった検索先の結果（見つからなければ空配列）
+  results: GeocodeResult[];
+  // 検索先を試した順
+  providers: GeocodingReport[];
+}
+
+// /api/reverse-geocode のレスポンス
+export interface ReverseGeocodeResponse {
+  lat: number;
+  lon: number;
+  results: GeocodeResult[];
+  providers: GeocodingReport[];
+}
+
+export const DEFAULT_GEOCODE_LIMIT = 5;
+
+// 検索先を順に試し、最初に結果が見つかった検索先の結果を返す（失敗は report に残す。中断は呼び出し元に伝える）
+const runProviders = async <Name extends string>(
+  providers: Record<Name, GeocodingProvider>,
+  order: Name[],
+  options: GeocodeOptions,
+  search: (provider: GeocodingProvider, options: GeocodeOptions) => Promise<GeocodeCandidate[]>
+): Promise<Pick<GeocodeResponse, 'results' | 'providers'>> => {
+  const names = [...new Set(order)];
+  const unknown = names.filter(name => !Object.prototype.hasOwnProperty.call(providers, name));
+  if (unknown.length > 0) throw new Error(`Unknown geocoding provider: ${unknown.join(', ')}`);
+
+  const { limit = DEFAULT_GEOCODE_LIMIT } = options;
+  const reports: GeocodingReport[] = [];
+  for (const [index, name] of names.entries()) {
+    const provider = providers[name];
+    const startedAt = Date.now();
+    try {
+      const candidates = (await search(provider, { ...options, limit })).slice(0, limit);
+      reports.push({
+        provider: provider.name,
+        status: candidates.length > 0 ? 'ok' : 'empty',
+        resultCount: candidates.length,
+        durationMs: Date.now() - startedAt,
+      });
+
+      if (candidates.length > 0) {
+        return {
+          results: candidates.map(candidate => ({ ...candidate, provider: provider.name })),
+          providers: [
+            ...reports,
+            ...names.slice(index + 1).map((skipped): GeocodingReport => ({
+              provider: skipped,
+              status: 'skipped',
+              resultCount: 0,
+              durationMs: 0,
+            })),
+          ],
+        };
+      }
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error(`Geocoding provider error (${provider.name}):`, error);
+
+      reports.push({
+        provider: provider.name,
+        status: 'error',
+        resultCount: 0,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return { results: [], providers: reports };
+};
+
+export const runGeocodingProviders = async <Name extends string>(
+  providers: Record<Name, GeocodingProvider>,
+  order: Name[],
+  query: string,
+  options: GeocodeOptions = {}
+): Promise<GeocodeResponse> => ({
+  query,
+  ...await runProviders(providers, order, options, (provider, providerOptions) =>
+    provider.geocode(query, providerOptions)
+  ),
+});
+
+// 逆ジオコーディングに対応しない検索先は失敗として記録する
+export const runReverseGeocodingProviders = async <Name extends string>(
+  providers: Record<Name, GeocodingProvider>,
+  order: Name[],
+  lat: number,
+  lon: number,
+  options: GeocodeOptions = {}
+): Promise<ReverseGeocodeResponse> => ({
+  lat,
+  lon,
+  ...await runProviders(providers, order, options, (provider, providerOptions) => {
+    if (!provider.reverse) throw new Error(`${provider.name} does not support reverse geocoding`);
+    return provider.reverse(lat, lon, providerOptions);
+  }),
+});
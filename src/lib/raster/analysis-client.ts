@@ -0,0 +1,94 @@
+import type {
+  RasterAnalysisProgressStage,
+  RasterAnalysisRequest,
+  RasterAnalysisResponse,
+  RasterAnalysisResult,
+} from '@/lib/raster/analysis-messages';
+
+// 画像解析ワーカーの呼び出し（ブラウザ専用）
+// 中断するとワーカーを終了させる（実行中の同期処理を確実に止めるため）。次の呼び出しで新しいワーカーを起動する
+
+export interface RasterAnalysisOptions {
+  signal?: AbortSignal;
+  onProgress?: (stage: RasterAnalysisProgressStage, ratio: number) => void;
+}
+
+interface PendingRun {
+  resolve: (result: RasterAnalysisResult<RasterAnalysisRequest>) => void;
+  reject: (error: Error) => void;
+  onProgress?: RasterAnalysisOptions['onProgress'];
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRun>();
+
+const abortError = () => new DOMException('Raster analysis was aborted', 'AbortError');
+
+const resetWorker = (error: Error) => {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(run => run.reject(error));
+  pending.clear();
+};
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = ({ data: response }: MessageEvent<RasterAnalysisResponse>) => {
+    const run = pending.get(response.id);
+    if (!run) return;
+
+    if (response.type === 'progress') {
+      run.onProgress?.(response.stage, response.ratio);
+      return;
+    }
+
+    pending.delete(response.id);
+    if (response.type === 'error') {
+      run.reject(new Error(response.error));
+    } else {
+      run.resolve(response.result);
+    }
+  };
+  worker.onerror = (event) => {
+    console.error('Raster analysis worker error:', event);
+    resetWorker(new Error(event.message || 'Raster analysis worker failed'));
+  };
+
+  return worker;
+};
+
+// 画像（ImageBitmap・ArrayBuffer）は transfer に渡してコピーせずにワーカーへ送る
+export const runRasterAnalysis = <T extends RasterAnalysisRequest>(
+  request: T,
+  transfer: Transferable[],
+  options: RasterAnalysisOptions = {}
+): Promise<RasterAnalysisResult<T>> => {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, {
+      resolve: result => resolve(result as RasterAnalysisResult<T>),
+      reject,
+      onProgress,
+    });
+
+    signal?.addEventListener('abort', () => {
+      const run = pending.get(id);
+      if (!run) return;
+      pending.delete(id);
+      run.reject(abortError());
+      // 同じワーカーで実行中の他の解析も止まるため失敗として返す
+      resetWorker(new Error('Raster analysis worker was restarted'));
+    }, { once: true });
+
+    getWorker().postMessage({ ...request, id }, transfer);
+  });
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
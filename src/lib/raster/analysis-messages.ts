@@ -0,0 +1,52 @@
+import type { ColorDetectionResult, DetectionStage } from '@/lib/raster/color-detection';
+import type { RGBAColor } from '@/lib/raster/flood-fill';
+import type { PaletteStyle } from '@/lib/raster/palette';
+import type { TileRange } from '@/lib/tiles/mercator';
+
+// 画像解析ワーカーとのメッセージ（画像はImageBitmap・ArrayBufferを転送する）
+
+// タイル画像を並べたモザイクで色分析による建物検出を行う
+export interface DetectBuildingsRequest {
+  type: 'detect-buildings';
+  tiles: Array<{ x: number; y: number; bitmap: ImageBitmap }>;
+  extent: TileRange;
+  zoom: number;
+  lat: number;
+  lon: number;
+  tileUrl: string;
+  // タイルの背景地図のスタイル
+  palette: PaletteStyle;
+}
+
+// RGBA画素配列の指定位置からFlood Fillを行う
+export interface FloodFillRequest {
+  type: 'flood-fill';
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+  x: number;
+  y: number;
+  fillColor: RGBAColor;
+  tolerance: number;
+}
+
+export type RasterAnalysisRequest = DetectBuildingsRequest | FloodFillRequest;
+
+export interface FloodFillResult {
+  width: number;
+  height: number;
+  // 塗りつぶし後の画素配列
+  buffer: ArrayBuffer;
+  processedPixels: number;
+}
+
+export type RasterAnalysisProgressStage = 'compose' | DetectionStage | 'fill';
+
+export type RasterAnalysisResponse =
+  | { id: number; type: 'progress'; stage: RasterAnalysisProgressStage; ratio: number }
+  | { id: number; type: 'detect-buildings'; result: ColorDetectionResult }
+  | { id: number; type: 'flood-fill'; result: FloodFillResult }
+  | { id: number; type: 'error'; error: string };
+
+export type RasterAnalysisResult<T extends RasterAnalysisRequest> =
+  T extends DetectBuildingsRequest ? ColorDetectionResult : FloodFillResult;
@@ -0,0 +1,63 @@
+import type { RasterAnalysisRequest, RasterAnalysisResponse } from '@/lib/raster/analysis-messages';
+import { detectBuildingsInRaster } from '@/lib/raster/color-detection';
+import { floodFill } from '@/lib/raster/flood-fill';
+import { DEFAULT_TILE_SIZE } from '@/lib/tiles/mercator';
+
+// 画像解析ワーカー（メインスレッドを止めずにモザイク作成・色分析・Flood Fillを行う）
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<RasterAnalysisRequest & { id: number }>) => void) | null;
+  postMessage: (message: RasterAnalysisResponse, transfer?: Transferable[]) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = ({ data: request }) => {
+  const { id } = request;
+
+  try {
+    if (request.type === 'detect-buildings') {
+      const { tiles, extent, zoom, lat, lon, tileUrl, palette } = request;
+
+      // タイル画像を1枚のOffscreenCanvasに並べる
+      const canvas = new OffscreenCanvas(
+        (extent.maxX - extent.minX + 1) * DEFAULT_TILE_SIZE,
+        (extent.maxY - extent.minY + 1) * DEFAULT_TILE_SIZE
+      );
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) throw new Error('OffscreenCanvas 2D context is not available');
+
+      tiles.forEach(({ x, y, bitmap }, index) => {
+        ctx.drawImage(bitmap, (x - extent.minX) * DEFAULT_TILE_SIZE, (y - extent.minY) * DEFAULT_TILE_SIZE);
+        bitmap.close();
+        scope.postMessage({ id, type: 'progress', stage: 'compose', ratio: 0.2 * (index + 1) / tiles.length });
+      });
+
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const result = detectBuildingsInRaster(
+        imageData,
+        { tileX: extent.minX, tileY: extent.minY, zoom },
+        lat,
+        lon,
+        {
+          tileUrl,
+          palette,
+          onProgress: (stage, ratio) => scope.postMessage({ id, type: 'progress', stage, ratio: 0.2 + 0.8 * ratio }),
+        }
+      );
+
+      scope.postMessage({ id, type: 'detect-buildings', result });
+    } else {
+      const { width, height, buffer, x, y, fillColor, tolerance } = request;
+      const data = new Uint8ClampedArray(buffer);
+
+      scope.postMessage({ id, type: 'progress', stage: 'fill', ratio: 0 });
+      const processedPixels = floodFill({ width, height, data }, x, y, fillColor, tolerance);
+
+      // 画素配列はコピーせずに返す
+      scope.postMessage({ id, type: 'flood-fill', result: { width, height, buffer, processedPixels } }, [buffer]);
+    }
+  } catch (error) {
+    scope.postMessage({ id, type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
@@ -0,0 +1,186 @@
+import type { BuildingGeoJSON } from '@/lib/buildings/types';
+import { growComponents, labelComponents } from '@/lib/raster/components';
+import {
+  DEFAULT_PALETTE_STYLE,
+  PALETTES,
+  classMask,
+  classifyRaster,
+  pixelClassAt,
+  scalePaletteTolerance,
+  type PaletteStyle,
+  type PixelClass,
+} from '@/lib/raster/palette';
+import { vectorizeComponents } from '@/lib/raster/vectorize';
+import { DEFAULT_TILE_SIZE, lonLatToTilePixel, type TileCoord, type TileSize } from '@/lib/tiles/mercator';
+
+// 地図タイル（国土地理院 標準地図・淡色地図）の色分析による建物検出
+// ブラウザ（Canvas）でもサーバー（PNGデコード）でも使えるよう、RGBAの画素配列を入力とする
+
+// RGBA画素配列（ImageDataと同じ形）
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+// 画像の左上に対応するタイル
+export interface RasterOrigin {
+  tileX: number;
+  tileY: number;
+  zoom: number;
+  // 1タイルのピクセル数（高解像度タイルは512）
+  tileSize?: TileSize;
+}
+
+export interface ColorDetectionDebugInfo {
+  pixelColor: string;
+  // ピン位置の画素の分類
+  pixelClass: PixelClass;
+  // 画像全体の分類ごとの画素数
+  classCounts: Record<PixelClass, number>;
+  buildingPixels: number;
+  boundaryPixels: number;
+  tileUrl: string;
+  markerPosition: string;
+  nearbyBuildingPixels: number;
+  clustersGenerated: number;
+  tileCoordinates: string;
+  originalCoordinates: string;
+}
+
+// 検出の進み具合（stage: 処理段階、ratio: 全体の進捗 0〜1）
+export type DetectionStage = 'classify' | 'label' | 'trace';
+export type DetectionProgressHandler = (stage: DetectionStage, ratio: number) => void;
+
+export interface ColorDetectionOptions {
+  // デバッグ情報に載せるタイルURL
+  tileUrl?: string;
+  // 画像の背景地図のスタイル（分類に使うパレット）
+  palette?: PaletteStyle;
+  // パレットの色差の許容範囲に掛ける倍率
+  toleranceScale?: number;
+  markerRadius?: number;
+  minComponentSize?: number;
+  onProgress?: DetectionProgressHandler;
+}
+
+export interface ColorDetectionResult {
+  buildings: BuildingGeoJSON | null;
+  debug: ColorDetectionDebugInfo | null;
+}
+
+// ピン位置周辺の建物領域を探す半径（ピクセル単位）
+export const DEFAULT_MARKER_RADIUS = 30;
+
+// 建物として扱う最小の連結成分の画素数
+export const DEFAULT_MIN_COMPONENT_SIZE = 5;
+
+// 建物の輪郭線として取り込む幅（ピクセル単位）
+const OUTLINE_WIDTH = 2;
+
+// 画素配列からピン位置周辺の建物ポリゴンを検出
+export const detectBuildingsInRaster = (
+  image: RasterImage,
+  origin: RasterOrigin,
+  lat: number,
+  lon: number,
+  options: ColorDetectionOptions = {}
+): ColorDetectionResult => {
+  const {
+    tileUrl = '',
+    palette = DEFAULT_PALETTE_STYLE,
+    toleranceScale = 1,
+    markerRadius = DEFAULT_MARKER_RADIUS,
+    minComponentSize = DEFAULT_MIN_COMPONENT_SIZE,
+    onProgress,
+  } = options;
+  const { tileX, tileY, zoom, tileSize = DEFAULT_TILE_SIZE } = origin;
+  const originTile: TileCoord = { x: tileX, y: tileY, z: zoom };
+
+  // 画素ごとに分類し、建物ピクセルのマスクを作成
+  const classMap = classifyRaster(image, scalePaletteTolerance(PALETTES[palette], toleranceScale));
+  const buildingMask = classMask(classMap, 'building');
+  const { building: buildingPixels, boundary: boundaryPixels } = classMap.counts;
+
+  onProgress?.('classify', 0.4);
+
+  // ピン位置のピクセル座標（画像左上のタイルが原点）
+  const [markerX, markerY] = lonLatToTilePixel([lon, lat], originTile, tileSize);
+  const pixelX = Math.floor(markerX);
+  const pixelY = Math.floor(markerY);
+
+  // ピクセル座標の範囲チェック
+  if (pixelX < 0 || pixelX >= image.width || pixelY < 0 || pixelY >= image.height) {
+    console.error('Marker pixel position out of bounds:', { pixelX, pixelY, width: image.width, height: image.height });
+    return { buildings: null, debug: null };
+  }
+
+  // ピン位置の色を取得
+  const markerIndex = (pixelY * image.width + pixelX) * 4;
+  const markerR = image.data[markerIndex];
+  const markerG = image.data[markerIndex + 1];
+  const markerB = image.data[markerIndex + 2];
+  const markerColor = `#${markerR.toString(16).padStart(2, '0')}${markerG.toString(16).padStart(2, '0')}${markerB.toString(16).padStart(2, '0')}`;
+
+  // デバッグ情報
+  const debug: ColorDetectionDebugInfo = {
+    pixelColor: markerColor,
+    pixelClass: pixelClassAt(classMap, pixelX, pixelY),
+    classCounts: classMap.counts,
+    buildingPixels,
+    boundaryPixels,
+    tileUrl,
+    markerPosition: `${pixelX}, ${pixelY}`,
+    nearbyBuildingPixels: 0,
+    clustersGenerated: 0,
+    tileCoordinates: `${tileX}-${tileX + Math.ceil(image.width / tileSize) - 1}, ${tileY}-${tileY + Math.ceil(image.height / tileSize) - 1}`,
+    originalCoordinates: `${lat.toFixed(6)}, ${lon.toFixed(6)}`
+  };
+
+  // 画像全体の建物ピクセルを連結成分に分ける
+  // 境界線の画素は壁として扱い、斜めにすり抜けないよう4近傍でつなぐ（長屋などの隣り合う建物を分ける）
+  // その後、各建物を周囲の境界線まで広げて輪郭を描かれた外形線に合わせる
+  const labeling = growComponents(
+    labelComponents(buildingMask, image.width, image.height, {
+      connectivity: 4,
+      minSize: minComponentSize,
+    }),
+    classMask(classMap, 'boundary'),
+    OUTLINE_WIDTH
+  );
+  onProgress?.('label', 0.6);
+
+  // ピン位置周辺に画素を持つ建物（連結成分）を選ぶ
+  const nearbyLabels = new Set<number>();
+  let nearbyBuildingPixels = 0;
+  for (let y = Math.max(0, pixelY - markerRadius); y <= Math.min(image.height - 1, pixelY + markerRadius); y++) {
+    for (let x = Math.max(0, pixelX - markerRadius); x <= Math.min(image.width - 1, pixelX + markerRadius); x++) {
+      if ((x - pixelX) ** 2 + (y - pixelY) ** 2 > markerRadius ** 2) continue;
+
+      const index = y * image.width + x;
+      if (buildingMask[index] === 1) nearbyBuildingPixels++;
+      if (labeling.labels[index] !== 0) nearbyLabels.add(labeling.labels[index]);
+    }
+  }
+  debug.nearbyBuildingPixels = nearbyBuildingPixels;
+
+  if (nearbyLabels.size === 0) {
+    return { buildings: null, debug };
+  }
+
+  const components = labeling.components.filter(component => nearbyLabels.has(component.label));
+  debug.clustersGenerated = components.length;
+
+  // 各連結成分からポリゴンを生成
+  const features = vectorizeComponents(labeling, components, origin, lat, {
+    building: 'color_detected',
+    source: 'color_analysis',
+    onProgress: ratio => onProgress?.('trace', 0.6 + 0.4 * ratio),
+  });
+
+  // GeoJSON返却
+  return {
+    buildings: { type: 'FeatureCollection', features },
+    debug
+  };
+};
@@ -0,0 +1,222 @@
+// 二値マスクの連結成分ラベリング（2パス・Union-Find、画素数に比例する計算量）
+
+export type Connectivity = 4 | 8;
+
+export interface ComponentStats {
+  label: number;
+  // 画素数
+  area: number;
+  bbox: { minX: number; minY: number; maxX: number; maxY: number };
+  // 画素中心の平均 [x, y]（画素 (x, y) の中心は (x + 0.5, y + 0.5)）
+  centroid: [number, number];
+}
+
+export interface ComponentLabeling {
+  width: number;
+  height: number;
+  // 画素ごとの成分ラベル（0は背景。1から components の順に振る）
+  labels: Int32Array;
+  components: ComponentStats[];
+}
+
+export interface LabelingOptions {
+  connectivity?: Connectivity;
+  // これより画素数の少ない成分は背景として扱う
+  minSize?: number;
+}
+
+const findRoot = (parents: Int32Array, label: number): number => {
+  while (parents[label] !== label) {
+    parents[label] = parents[parents[label]];
+    label = parents[label];
+  }
+  return label;
+};
+
+const union = (parents: Int32Array, a: number, b: number): number => {
+  const rootA = findRoot(parents, a);
+  const rootB = findRoot(parents, b);
+  if (rootA === rootB) return rootA;
+  // 小さいラベルを根にする
+  if (rootA < rootB) {
+    parents[rootB] = rootA;
+    return rootA;
+  }
+  parents[rootA] = rootB;
+  return rootB;
+};
+
+// mask の 0 以外の画素を前景としてラベルを付ける
+export const labelComponents = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  options: LabelingOptions = {}
+): ComponentLabeling => {
+  const { connectivity = 8, minSize = 1 } = options;
+  const labels = new Int32Array(width * height);
+  // 仮ラベルの親（足りなくなったら拡張する）
+  let parents = new Int32Array(1024);
+  let nextLabel = 1;
+
+  // 1パス目: 走査済みの近傍（左・上、8近傍では左上・右上も）から仮ラベルを付け、同じ成分のラベルを結合する
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (mask[index] === 0) continue;
+
+      let label = 0;
+      const neighborCount = y > 0 ? (connectivity === 8 ? 4 : 2) : 1;
+      for (let k = 0; k < neighborCount; k++) {
+        // 左・上・左上・右上
+        const nx = k === 0 || k === 2 ? x - 1 : k === 3 ? x + 1 : x;
+        const ny = k === 0 ? y : y - 1;
+        if (nx < 0 || nx >= width) continue;
+
+        const neighborLabel = labels[ny * width + nx];
+        if (neighborLabel === 0) continue;
+        label = label === 0 ? findRoot(parents, neighborLabel) : union(parents, label, neighborLabel);
+      }
+
+      if (label === 0) {
+        if (nextLabel >= parents.length) {
+          const grown = new Int32Array(parents.length * 2);
+          grown.set(parents);
+          parents = grown;
+        }
+        parents[nextLabel] = nextLabel;
+        label = nextLabel++;
+      }
+      labels[index] = label;
+    }
+  }
+
+  // 根ごとの統計
+  const area = new Int32Array(nextLabel);
+  const sumX = new Float64Array(nextLabel);
+  const sumY = new Float64Array(nextLabel);
+  const minX = new Int32Array(nextLabel).fill(width);
+  const minY = new Int32Array(nextLabel).fill(height);
+  const maxX = new Int32Array(nextLabel).fill(-1);
+  const maxY = new Int32Array(nextLabel).fill(-1);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (labels[index] === 0) continue;
+
+      const root = findRoot(parents, labels[index]);
+      labels[index] = root;
+      area[root]++;
+      sumX[root] += x;
+      sumY[root] += y;
+      if (x < minX[root]) minX[root] = x;
+      if (y < minY[root]) minY[root] = y;
+      if (x > maxX[root]) maxX[root] = x;
+      if (y > maxY[root]) maxY[root] = y;
+    }
+  }
+
+  // 小さな成分を除き、残った成分に連番を振る
+  const finalLabels = new Int32Array(nextLabel);
+  const components: ComponentStats[] = [];
+  for (let root = 1; root < nextLabel; root++) {
+    if (parents[root] !== root || area[root] < minSize) continue;
+
+    const label = components.length + 1;
+    finalLabels[root] = label;
+    components.push({
+      label,
+      area: area[root],
+      bbox: { minX: minX[root], minY: minY[root], maxX: maxX[root], maxY: maxY[root] },
+      centroid: [sumX[root] / area[root] + 0.5, sumY[root] / area[root] + 0.5],
+    });
+  }
+
+  // 2パス目: 根のラベルを最終ラベルに置き換える
+  for (let index = 0; index < labels.length; index++) {
+    if (labels[index] !== 0) labels[index] = finalLabels[labels[index]];
+  }
+
+  return { width, height, labels, components };
+};
+
+// 成分を mask の 0 以外の画素（建物の輪郭線など）へ最大 maxDistance 画素まで広げる（4近傍で1画素ずつ）
+// 複数の成分から届く画素は先に届いた成分のものにする（共有する壁は両側の成分で分け合う）
+export const growComponents = (
+  labeling: ComponentLabeling,
+  mask: Uint8Array,
+  maxDistance: number
+): ComponentLabeling => {
+  const { width, height } = labeling;
+  const labels = labeling.labels.slice();
+
+  let frontier: number[] = [];
+  for (let index = 0; index < labels.length; index++) {
+    if (labels[index] !== 0) frontier.push(index);
+  }
+
+  for (let distance = 0; distance < maxDistance && frontier.length > 0; distance++) {
+    const next: number[] = [];
+    for (const index of frontier) {
+      const x = index % width;
+      const y = (index - x) / width;
+      const neighbors = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const neighbor of neighbors) {
+        if (neighbor < 0 || labels[neighbor] !== 0 || mask[neighbor] === 0) continue;
+        labels[neighbor] = labels[index];
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+
+  // 広げた画素を含めて統計を取り直す
+  const count = labeling.components.length + 1;
+  const area = new Int32Array(count);
+  const sumX = new Float64Array(count);
+  const sumY = new Float64Array(count);
+  const bboxes = labeling.components.map(component => ({ ...component.bbox }));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const label = labels[y * width + x];
+      if (label === 0) continue;
+
+      area[label]++;
+      sumX[label] += x;
+      sumY[label] += y;
+      const bbox = bboxes[label - 1];
+      if (x < bbox.minX) bbox.minX = x;
+      if (y < bbox.minY) bbox.minY = y;
+      if (x > bbox.maxX) bbox.maxX = x;
+      if (y > bbox.maxY) bbox.maxY = y;
+    }
+  }
+
+  const components = labeling.components.map(({ label }) => ({
+    label,
+    area: area[label],
+    bbox: bboxes[label - 1],
+    centroid: [sumX[label] / area[label] + 0.5, sumY[label] / area[label] + 0.5] as [number, number],
+  }));
+
+  return { width, height, labels, components };
+};
+
+// 成分に属する画素の一覧
+export const componentPixels = (labeling: ComponentLabeling, component: ComponentStats): Array<[number, number]> => {
+  const pixels: Array<[number, number]> = [];
+  const { minX, minY, maxX, maxY } = component.bbox;
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (labeling.labels[y * labeling.width + x] === component.label) pixels.push([x, y]);
+    }
+  }
+  return pixels;
+};
@@ -0,0 +1,129 @@
+import { pointInRing, ringArea } from '@/lib/geo/polygon';
+
+// 画素領域の輪郭追跡
+// 画素の辺に沿って境界をたどるため、輪郭は画素の角（整数座標）を結ぶ折れ線になる
+// 画素 (x, y) は [x, x+1] × [y, y+1] の正方形を占める
+
+// 外周リングの後に穴のリングが続くポリゴン（画素座標、リングは閉じている）
+export type PixelPolygon = number[][][];
+
+// 進行方向（画面座標、時計回りの順）: 東・南・西・北
+const DIRECTIONS: Array<[number, number]> = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+
+interface Edge {
+  x: number;
+  y: number;
+  direction: number;
+}
+
+// 画素の集合を輪郭ポリゴンに変換する
+// 斜めに接する画素は同じ領域としてつなぐ（8近傍）。離れた塊は別々のポリゴンになる
+export const traceRegion = (pixels: Array<[number, number]>): PixelPolygon[] => {
+  if (pixels.length === 0) return [];
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of pixels) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  // 周囲1画素の余白を付けたマスク
+  const width = maxX - minX + 3;
+  const height = maxY - minY + 3;
+  const mask = new Uint8Array(width * height);
+  for (const [x, y] of pixels) {
+    mask[(y - minY + 1) * width + (x - minX + 1)] = 1;
+  }
+  const filled = (x: number, y: number) => mask[y * width + x] === 1;
+
+  // 前景の画素を右手に見る向きで境界の辺を集める（外周は画面上で時計回り、穴は反時計回り）
+  const vertexWidth = width + 1;
+  const outgoing = new Map<number, Edge[]>();
+  const addEdge = (x: number, y: number, direction: number) => {
+    const key = y * vertexWidth + x;
+    outgoing.set(key, [...(outgoing.get(key) ?? []), { x, y, direction }]);
+  };
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      if (!filled(x, y)) continue;
+      if (!filled(x, y - 1)) addEdge(x, y, 0);
+      if (!filled(x + 1, y)) addEdge(x + 1, y, 1);
+      if (!filled(x, y + 1)) addEdge(x + 1, y + 1, 2);
+      if (!filled(x - 1, y)) addEdge(x, y + 1, 3);
+    }
+  }
+
+  const used = new Set<Edge>();
+  const rings: number[][][] = [];
+  // 穴の内側判定に使う、リングに接する前景画素の中心
+  const innerPoints: number[][] = [];
+
+  for (const edges of outgoing.values()) {
+    for (const start of edges) {
+      if (used.has(start)) continue;
+
+      const ring: number[][] = [];
+      let edge = start;
+      let previousDirection = -1;
+
+      for (;;) {
+        used.add(edge);
+        // 向きが変わる点だけを頂点にする
+        if (edge.direction !== previousDirection) ring.push([edge.x, edge.y]);
+        previousDirection = edge.direction;
+
+        const [dx, dy] = DIRECTIONS[edge.direction];
+        const candidates = (outgoing.get((edge.y + dy) * vertexWidth + edge.x + dx) ?? [])
+          .filter(next => next === start || !used.has(next));
+        if (candidates.length === 0) break;
+        // 斜めに接する画素の角（分岐点）では左に曲がり、2つの画素を同じ輪郭に含める
+        const leftTurn = (edge.direction + 3) % 4;
+        edge = candidates.find(next => next.direction === leftTurn) ?? candidates[0];
+        if (edge === start) break;
+      }
+
+      // 始点が直線の途中なら取り除く
+      if (ring.length > 1 && start.direction === previousDirection) ring.shift();
+      if (ring.length < 4) continue;
+      ring.push([...ring[0]]);
+
+      const [rx, ry] = DIRECTIONS[(start.direction + 1) % 4];
+      const [sx, sy] = DIRECTIONS[start.direction];
+      innerPoints.push([start.x + (sx + rx) / 2, start.y + (sy + ry) / 2]);
+      rings.push(ring.map(([x, y]) => [x + minX - 1, y + minY - 1]));
+    }
+  }
+
+  // 画面上で時計回りのリングが外周（y軸が下向きのため面積の符号で判定する）
+  const signedArea = (ring: number[][]) => {
+    let sum = 0;
+    for (let i = 0; i + 1 < ring.length; i++) {
+      sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    }
+    return sum / 2;
+  };
+
+  const outers = rings.filter(ring => signedArea(ring) > 0);
+  const polygons: PixelPolygon[] = outers.map(ring => [ring]);
+
+  rings.forEach((ring, index) => {
+    if (signedArea(ring) > 0) return;
+
+    // 穴に接する前景画素を含む最小の外周に割り当てる
+    const [px, py] = innerPoints[index];
+    const point = [px + minX - 1, py + minY - 1];
+    let owner = -1;
+    outers.forEach((outer, outerIndex) => {
+      if (!pointInRing(point, outer)) return;
+      if (owner === -1 || ringArea(outer) < ringArea(outers[owner])) {
+        owner = outerIndex;
+      }
+    });
+    if (owner !== -1) polygons[owner].push(ring);
+  });
+
+  return polygons;
+};
@@ -0,0 +1,84 @@
+import type { RasterImage } from '@/lib/raster/color-detection';
+import { deltaE, rgbToLab, type Lab } from '@/lib/raster/palette';
+
+// 開始点と似た色の連続した領域を塗りつぶす（スタックベースのFlood Fill）
+
+export interface RGBAColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// 色の類似性を判定（CIELAB色差 ΔE）
+export const isSimilarColor = (color: Lab, reference: Lab, tolerance: number): boolean =>
+  deltaE(color, reference) <= tolerance;
+
+// image.data を書き換え、塗りつぶしたピクセル数を返す（tolerance は開始点の色との色差 ΔE）
+export const floodFill = (
+  image: RasterImage,
+  startX: number,
+  startY: number,
+  fillColor: RGBAColor,
+  tolerance: number
+): number => {
+  const { width, height, data } = image;
+  const stack: Array<[number, number]> = [[startX, startY]];
+  let processedPixels = 0;
+
+  // 開始点の色を取得
+  const startIndex = (startY * width + startX) * 4;
+  const startColor = {
+    r: data[startIndex],
+    g: data[startIndex + 1],
+    b: data[startIndex + 2]
+  };
+
+  // 開始色と塗りつぶし色が同じ場合は処理をスキップ
+  if (startColor.r === fillColor.r &&
+      startColor.g === fillColor.g &&
+      startColor.b === fillColor.b) {
+    return 0;
+  }
+  const startLab = rgbToLab(startColor);
+
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!;
+
+    // 境界チェック
+    if (x < 0 || x >= width || y < 0 || y >= height) {
+      continue;
+    }
+
+    const index = (y * width + x) * 4;
+    const currentColor = {
+      r: data[index],
+      g: data[index + 1],
+      b: data[index + 2]
+    };
+
+    // 既に塗りつぶし色の場合はスキップ
+    if (currentColor.r === fillColor.r &&
+        currentColor.g === fillColor.g &&
+        currentColor.b === fillColor.b) {
+      continue;
+    }
+
+    // 色が類似していない場合はスキップ
+    if (!isSimilarColor(rgbToLab(currentColor), startLab, tolerance)) {
+      continue;
+    }
+
+    // ピクセルを塗りつぶし色で更新
+    data[index] = fillColor.r;
+    data[index + 1] = fillColor.g;
+    data[index + 2] = fillColor.b;
+    data[index + 3] = fillColor.a;
+    processedPixels++;
+
+    // 隣接ピクセルをスタックに追加
+    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+  }
+
+  return processedPixels;
+};
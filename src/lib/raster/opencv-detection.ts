@@ -0,0 +1,265 @@
+import cv from 'opencv.js';
+
+import type { BuildingFeature, BuildingGeoJSON } from '@/lib/buildings/types';
+import { geometryFromPolygons, orientRing, signedRingArea } from '@/lib/geo/polygon';
+import {
+  DEFAULT_MARKER_RADIUS,
+  DEFAULT_MIN_COMPONENT_SIZE,
+  type RasterImage,
+  type RasterOrigin,
+} from '@/lib/raster/color-detection';
+import {
+  DEFAULT_PALETTE_STYLE,
+  PALETTES,
+  rgbToLab,
+  scalePaletteTolerance,
+  type PaletteClassEntry,
+  type PaletteStyle,
+} from '@/lib/raster/palette';
+import { DEFAULT_TILE_SIZE, groundResolution, lonLatToTilePixel, tilePixelToLonLat, type TileCoord } from '@/lib/tiles/mercator';
+
+// OpenCV.js による地図タイルの建物検出（色分析の別実装、サーバー・評価スクリプト用）
+// Lab色空間でのしきい値処理 → モルフォロジー（クロージング・オープニング） → 輪郭抽出（穴を含む） → 折れ線近似
+// 注記の文字や道路の線で建物のマスクに空いた穴をクロージングで埋める
+// opencv.js は約8MBあるため、呼び出し側は import() で必要になったときに読み込む
+
+export interface OpenCVDetectionOptions {
+  // 画像の背景地図のスタイル（しきい値に使うパレット）
+  palette?: PaletteStyle;
+  // パレットの色差の許容範囲に掛ける倍率
+  toleranceScale?: number;
+  markerRadius?: number;
+  // 建物として扱う最小の面積（画素数）
+  minComponentSize?: number;
+}
+
+// 注記の文字などを埋めるクロージングの大きさ（ピクセル、隙間がこれ未満の領域をつなぐ）
+const CLOSE_KERNEL_SIZE = 3;
+
+// 小さな点や細い線を取り除くオープニングの大きさ（ピクセル）
+const OPEN_KERNEL_SIZE = 3;
+
+// 建物の輪郭線として取り込む幅（ピクセル単位）
+const OUTLINE_WIDTH = 2;
+
+// これより小さい穴は埋める（中庭とみなす最小の画素数）
+const MIN_HOLE_AREA = 20;
+
+// 輪郭の折れ線近似の許容誤差（メートル）
+const SIMPLIFY_TOLERANCE_METERS = 0.5;
+
+// パレットの色を Lab（OpenCVの8ビット表現: L×255/100, a+128, b+128）の範囲でしきい値処理する
+// 範囲は直方体なので、許容範囲は色差（ΔE）の球より少し広くなる
+const thresholdLab = (lab: cv.Mat, entry: PaletteClassEntry, track: <T extends cv.Deletable>(mat: T) => T): cv.Mat => {
+  const mask = track(cv.Mat.zeros(lab.rows, lab.cols, cv.CV_8UC1));
+  const colorMask = track(new cv.Mat());
+
+  for (const color of entry.colors) {
+    const { l, a, b } = rgbToLab(color);
+    const lightness = l * 255 / 100;
+    const lightnessTolerance = entry.tolerance * 255 / 100;
+    const lower = track(new cv.Mat(lab.rows, lab.cols, lab.type(), new cv.Scalar(
+      lightness - lightnessTolerance, a + 128 - entry.tolerance, b + 128 - entry.tolerance, 0
+    )));
+    const upper = track(new cv.Mat(lab.rows, lab.cols, lab.type(), new cv.Scalar(
+      lightness + lightnessTolerance, a + 128 + entry.tolerance, b + 128 + entry.tolerance, 255
+    )));
+    cv.inRange(lab, lower, upper, colorMask);
+    cv.bitwise_or(mask, colorMask, mask);
+  }
+
+  return mask;
+};
+
+// 輪郭（CV_32SC2）の頂点
+const contourPoints = (contour: cv.Mat): number[][] => {
+  const points: number[][] = [];
+  for (let i = 0; i + 1 < contour.data32S.length; i += 2) {
+    points.push([contour.data32S[i], contour.data32S[i + 1]]);
+  }
+  return points;
+};
+
+// 輪郭の階層（RETR_CCOMP: 外周とその穴の2階層）から、外周ごとの穴の番号を集める
+const contourHoles = (hierarchy: cv.Mat, outerIndex: number): number[] => {
+  const holes: number[] = [];
+  // hierarchy の各要素は [次, 前, 最初の子, 親]
+  for (let child = hierarchy.data32S[outerIndex * 4 + 2]; child !== -1; child = hierarchy.data32S[child * 4]) {
+    holes.push(child);
+  }
+  return holes;
+};
+
+// 閉じていない輪郭を外側（distance が負なら内側）に distance だけずらす（角は辺の交点に合わせる）
+// 輪郭は画素の中心を通るので、半画素ずらすと画素の外縁に合う
+const offsetRing = (points: number[][], distance: number): number[][] => {
+  const orientation = Math.sign(signedRingArea([...points, points[0]]));
+  // 辺の外向きの単位法線
+  const normals = points.map((point, index) => {
+    const next = points[(index + 1) % points.length];
+    const dx = next[0] - point[0];
+    const dy = next[1] - point[1];
+    const length = Math.hypot(dx, dy) || 1;
+    return [orientation * dy / length, -orientation * dx / length];
+  });
+
+  return points.map(([x, y], index) => {
+    const [px, py] = normals[(index + points.length - 1) % points.length];
+    const [nx, ny] = normals[index];
+    // 鋭い角で頂点が飛び出しすぎないよう、ずらす量を距離の2倍までにする
+    const scale = distance / Math.max(1 + px * nx + py * ny, 0.5);
+    return [x + (px + nx) * scale, y + (py + ny) * scale];
+  });
+};
+
+// 画素配列からピン位置周辺の建物ポリゴンを検出（色分析の detectBuildingsInRaster と同じ形で返す）
+export const detectBuildingsWithOpenCV = (
+  image: RasterImage,
+  origin: RasterOrigin,
+  lat: number,
+  lon: number,
+  options: OpenCVDetectionOptions = {}
+): BuildingGeoJSON | null => {
+  const {
+    palette = DEFAULT_PALETTE_STYLE,
+    toleranceScale = 1,
+    markerRadius = DEFAULT_MARKER_RADIUS,
+    minComponentSize = DEFAULT_MIN_COMPONENT_SIZE,
+  } = options;
+  const { tileX, tileY, zoom, tileSize = DEFAULT_TILE_SIZE } = origin;
+  const originTile: TileCoord = { x: tileX, y: tileY, z: zoom };
+  const profile = scalePaletteTolerance(PALETTES[palette], toleranceScale);
+
+  // OpenCVのオブジェクトはまとめて最後に解放する
+  const allocated: cv.Deletable[] = [];
+  const track = <T extends cv.Deletable>(mat: T): T => {
+    allocated.push(mat);
+    return mat;
+  };
+
+  try {
+    const rgba = track(new cv.Mat(image.height, image.width, cv.CV_8UC4));
+    rgba.data.set(image.data);
+    const rgb = track(new cv.Mat());
+    cv.cvtColor(rgba, rgb, cv.COLOR_RGBA2RGB);
+    const lab = track(new cv.Mat());
+    cv.cvtColor(rgb, lab, cv.COLOR_RGB2Lab);
+
+    // 建物色と境界線の色のマスク（両方に入る画素は建物とする）
+    const buildingMask = thresholdLab(lab, profile.classes.building, track);
+    const notBuilding = track(new cv.Mat());
+    cv.bitwise_not(buildingMask, notBuilding);
+    const boundaryMask = thresholdLab(lab, profile.classes.boundary, track);
+    cv.bitwise_and(boundaryMask, notBuilding, boundaryMask);
+
+    // クロージングで文字などの穴を埋めてから、境界線の画素を除いて隣り合う建物（長屋など）を分け直す
+    // その後オープニングで細い線や小さな点を取り除く
+    const mask = track(new cv.Mat());
+    cv.morphologyEx(buildingMask, mask, cv.MORPH_CLOSE,
+      track(cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(CLOSE_KERNEL_SIZE, CLOSE_KERNEL_SIZE))));
+    const notBoundary = track(new cv.Mat());
+    cv.bitwise_not(boundaryMask, notBoundary);
+    cv.bitwise_and(mask, notBoundary, mask);
+    cv.morphologyEx(mask, mask, cv.MORPH_OPEN,
+      track(cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(OPEN_KERNEL_SIZE, OPEN_KERNEL_SIZE))));
+
+    const contours = track(new cv.MatVector());
+    const hierarchy = track(new cv.Mat());
+    cv.findContours(mask, contours, hierarchy, cv.RETR_CCOMP, cv.CHAIN_APPROX_SIMPLE);
+
+    // ピン位置（画像左上のタイルが原点のピクセル座標）から markerRadius 以内にかかる外周を選ぶ
+    // 輪郭は画素の中心を通るので、ピン位置の画素の中心と比べる
+    const [markerX, markerY] = lonLatToTilePixel([lon, lat], originTile, tileSize);
+    const marker = new cv.Point(Math.floor(markerX), Math.floor(markerY));
+    const selected: number[] = [];
+    for (let i = 0; i < contours.size(); i++) {
+      // 親のある輪郭は穴
+      if (hierarchy.data32S[i * 4 + 3] !== -1) continue;
+
+      const contour = track(contours.get(i));
+      if (cv.contourArea(contour) < minComponentSize) continue;
+      if (cv.pointPolygonTest(contour, marker, true) >= -markerRadius) selected.push(i);
+    }
+
+    if (selected.length === 0) return null;
+
+    const pixelResolution = groundResolution(lat, zoom, tileSize);
+    const epsilon = SIMPLIFY_TOLERANCE_METERS / pixelResolution;
+    // 輪郭（画素の中心を通る）を建物の外側へ半画素ずらして地理座標に変換する
+    const toLonLat = (points: number[][], isOuter: boolean) => {
+      const ring = offsetRing(points, isOuter ? 0.5 : -0.5)
+        .map(([x, y]) => tilePixelToLonLat([x + 0.5, y + 0.5], originTile, tileSize));
+      return orientRing([...ring, ring[0]], isOuter);
+    };
+
+    const crossKernel = track(cv.getStructuringElement(cv.MORPH_CROSS, new cv.Size(3, 3)));
+    const features: BuildingFeature[] = [];
+    for (const index of selected) {
+      // 建物を塗りつぶし、境界線の画素の中だけを OUTLINE_WIDTH 回広げて描かれた外形線に合わせる
+      // （4近傍で1画素ずつ広げるので、隣の建物と共有する線に沿って回り込まない）
+      const filled = track(cv.Mat.zeros(mask.rows, mask.cols, cv.CV_8UC1));
+      cv.drawContours(filled, contours, index, new cv.Scalar(255), -1);
+      for (const hole of contourHoles(hierarchy, index)) {
+        if (cv.contourArea(track(contours.get(hole))) < MIN_HOLE_AREA) continue;
+        // 穴の輪郭は建物側の画素を通るので、塗りつぶした後に線を描き戻す
+        cv.drawContours(filled, contours, hole, new cv.Scalar(0), -1);
+        cv.drawContours(filled, contours, hole, new cv.Scalar(255), 1);
+      }
+      const grown = track(filled.clone());
+      const ring = track(new cv.Mat());
+      for (let step = 0; step < OUTLINE_WIDTH; step++) {
+        cv.dilate(grown, ring, crossKernel);
+        cv.bitwise_and(ring, boundaryMask, ring);
+        cv.bitwise_or(grown, ring, grown);
+      }
+
+      const grownContours = track(new cv.MatVector());
+      const grownHierarchy = track(new cv.Mat());
+      cv.findContours(grown, grownContours, grownHierarchy, cv.RETR_CCOMP, cv.CHAIN_APPROX_SIMPLE);
+
+      // 広げた領域の最も大きい外周と、その穴
+      let outerIndex = -1;
+      let outerArea = 0;
+      for (let i = 0; i < grownContours.size(); i++) {
+        if (grownHierarchy.data32S[i * 4 + 3] !== -1) continue;
+        const area = cv.contourArea(track(grownContours.get(i)));
+        if (area > outerArea) {
+          outerIndex = i;
+          outerArea = area;
+        }
+      }
+      if (outerIndex === -1) continue;
+
+      const simplify = (contourIndex: number): number[][] | null => {
+        const approx = track(new cv.Mat());
+        cv.approxPolyDP(track(grownContours.get(contourIndex)), approx, epsilon, true);
+        const points = contourPoints(approx);
+        return points.length >= 3 ? points : null;
+      };
+
+      const outer = simplify(outerIndex);
+      if (!outer) continue;
+
+      const holes = contourHoles(grownHierarchy, outerIndex)
+        .filter(hole => cv.contourArea(track(grownContours.get(hole))) >= MIN_HOLE_AREA)
+        .map(simplify)
+        .filter((hole): hole is number[][] => hole !== null);
+
+      features.push({
+        type: 'Feature',
+        geometry: geometryFromPolygons([[toLonLat(outer, true), ...holes.map(hole => toLonLat(hole, false))]]),
+        properties: {
+          id: features.length + 1,
+          building: 'opencv_detected',
+          source: 'opencv',
+          pixelCount: cv.countNonZero(grown),
+          pixelResolution,
+        },
+      });
+    }
+
+    return features.length > 0 ? { type: 'FeatureCollection', features } : null;
+  } finally {
+    allocated.forEach(object => object.delete());
+  }
+};
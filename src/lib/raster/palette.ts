@@ -0,0 +1,236 @@
+import type { RasterImage } from '@/lib/raster/color-detection';
+
+// 背景地図のスタイルごとの配色（パレット）と、CIELAB色差（ΔE）による画素の分類
+
+// 画素の分類（配列の位置が分類マップの値になる。0は未分類）
+export const PIXEL_CLASSES = ['none', 'building', 'boundary', 'road', 'water', 'vegetation'] as const;
+export type PixelClass = typeof PIXEL_CLASSES[number];
+export type PaletteClass = Exclude<PixelClass, 'none'>;
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// CIELAB（D65白色点）
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export interface PaletteClassEntry {
+  colors: RGB[];
+  // この色差（ΔE）以内なら該当とみなす
+  tolerance: number;
+}
+
+export interface PaletteProfile {
+  label: string;
+  classes: Record<PaletteClass, PaletteClassEntry>;
+}
+
+// 背景地図のスタイル（タイルレイヤー名）ごとのパレット
+export const PALETTES = {
+  // 国土地理院 標準地図
+  std: {
+    label: '標準地図',
+    classes: {
+      building: {
+        colors: [
+          { r: 255, g: 230, b: 190 }, // #FFE6BE
+          { r: 254, g: 229, b: 189 },
+          { r: 255, g: 231, b: 191 },
+          { r: 255, g: 235, b: 205 }, // 明るい建物色
+          { r: 255, g: 225, b: 185 }, // 暗い建物色
+          { r: 255, g: 240, b: 210 },
+          { r: 255, g: 220, b: 180 },
+        ],
+        tolerance: 6,
+      },
+      boundary: {
+        colors: [
+          { r: 255, g: 178, b: 128 }, // #FFB280
+          { r: 255, g: 212, b: 169 }, // #FFD4A9
+          { r: 255, g: 135, b: 75 },  // #FF874B
+          { r: 255, g: 165, b: 115 },
+          { r: 255, g: 190, b: 140 },
+          { r: 255, g: 150, b: 100 },
+        ],
+        tolerance: 6,
+      },
+      road: {
+        colors: [
+          { r: 255, g: 255, b: 255 }, // 一般道
+          { r: 255, g: 245, b: 170 }, // 主要道
+        ],
+        tolerance: 3,
+      },
+      water: {
+        colors: [
+          { r: 190, g: 210, b: 255 }, // #BED2FF
+        ],
+        tolerance: 8,
+      },
+      vegetation: {
+        colors: [
+          { r: 215, g: 240, b: 205 },
+        ],
+        tolerance: 8,
+      },
+    },
+  },
+  // 国土地理院 淡色地図
+  pale: {
+    label: '淡色地図',
+    classes: {
+      building: {
+        colors: [
+          { r: 240, g: 235, b: 225 },
+          { r: 235, g: 230, b: 220 },
+        ],
+        tolerance: 3,
+      },
+      boundary: {
+        colors: [
+          { r: 200, g: 190, b: 180 },
+          { r: 215, g: 205, b: 195 },
+        ],
+        tolerance: 4,
+      },
+      road: {
+        colors: [
+          { r: 255, g: 255, b: 255 },
+        ],
+        tolerance: 2,
+      },
+      water: {
+        colors: [
+          { r: 214, g: 234, b: 255 },
+        ],
+        tolerance: 6,
+      },
+      vegetation: {
+        colors: [
+          { r: 230, g: 242, b: 220 },
+        ],
+        tolerance: 5,
+      },
+    },
+  },
+} as const satisfies Record<string, PaletteProfile>;
+
+export type PaletteStyle = keyof typeof PALETTES;
+
+export const DEFAULT_PALETTE_STYLE: PaletteStyle = 'std';
+
+export const isPaletteStyle = (value: string): value is PaletteStyle =>
+  Object.prototype.hasOwnProperty.call(PALETTES, value);
+
+// 全分類の許容範囲を scale 倍にしたパレット
+export const scalePaletteTolerance = (profile: PaletteProfile, scale: number): PaletteProfile =>
+  scale === 1 ? profile : {
+    ...profile,
+    classes: Object.fromEntries(
+      Object.entries(profile.classes).map(([pixelClass, entry]) => [pixelClass, { ...entry, tolerance: entry.tolerance * scale }])
+    ) as Record<PaletteClass, PaletteClassEntry>,
+  };
+
+// sRGBの成分（0〜255）を線形値に戻す
+const linearize = (value: number) => {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const labCurve = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+
+// sRGB → CIELAB
+export const rgbToLab = ({ r, g, b }: RGB): Lab => {
+  const lr = linearize(r);
+  const lg = linearize(g);
+  const lb = linearize(b);
+
+  // XYZ（D65白色点で正規化）
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / 0.95047;
+  const y = 0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb;
+  const z = (0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / 1.08883;
+
+  const fx = labCurve(x);
+  const fy = labCurve(y);
+  const fz = labCurve(z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+// 色差 ΔE*ab（CIE76、Lab空間のユークリッド距離）
+export const deltaE = (lab1: Lab, lab2: Lab): number =>
+  Math.sqrt((lab1.l - lab2.l) ** 2 + (lab1.a - lab2.a) ** 2 + (lab1.b - lab2.b) ** 2);
+
+export type ColorClassifier = (r: number, g: number, b: number) => PixelClass;
+
+// パレットの色で画素を分類する関数を作る
+// 複数の分類の許容範囲に入る場合は色差が最も小さい分類を選ぶ。地図タイルは色数が少ないので結果をRGBごとに覚えておく
+export const createColorClassifier = (profile: PaletteProfile): ColorClassifier => {
+  const references = (Object.entries(profile.classes) as Array<[PaletteClass, PaletteClassEntry]>)
+    .flatMap(([pixelClass, entry]) => entry.colors.map(color => ({
+      pixelClass,
+      lab: rgbToLab(color),
+      tolerance: entry.tolerance,
+    })));
+  const cache = new Map<number, PixelClass>();
+
+  return (r, g, b) => {
+    const key = (r << 16) | (g << 8) | b;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const lab = rgbToLab({ r, g, b });
+    let result: PixelClass = 'none';
+    let nearest = Infinity;
+    for (const reference of references) {
+      const distance = deltaE(lab, reference.lab);
+      if (distance <= reference.tolerance && distance < nearest) {
+        nearest = distance;
+        result = reference.pixelClass;
+      }
+    }
+
+    cache.set(key, result);
+    return result;
+  };
+};
+
+export interface PixelClassMap {
+  width: number;
+  height: number;
+  // 画素ごとの分類（PIXEL_CLASSES の位置）
+  classes: Uint8Array;
+  counts: Record<PixelClass, number>;
+}
+
+// 画像全体を分類する（透明な画素は未分類）
+export const classifyRaster = (image: RasterImage, profile: PaletteProfile): PixelClassMap => {
+  const classify = createColorClassifier(profile);
+  const classes = new Uint8Array(image.width * image.height);
+  const counts = Object.fromEntries(PIXEL_CLASSES.map(pixelClass => [pixelClass, 0])) as Record<PixelClass, number>;
+
+  for (let i = 0; i < classes.length; i++) {
+    const offset = i * 4;
+    const pixelClass = image.data[offset + 3] === 0
+      ? 'none'
+      : classify(image.data[offset], image.data[offset + 1], image.data[offset + 2]);
+    classes[i] = PIXEL_CLASSES.indexOf(pixelClass);
+    counts[pixelClass]++;
+  }
+
+  return { width: image.width, height: image.height, classes, counts };
+};
+
+// 分類マップから指定の分類のマスクを作る
+export const classMask = (classMap: PixelClassMap, pixelClass: PixelClass): Uint8Array => {
+  const code = PIXEL_CLASSES.indexOf(pixelClass);
+  return classMap.classes.map(value => (value === code ? 1 : 0));
+};
+
+export const pixelClassAt = (classMap: PixelClassMap, x: number, y: number): PixelClass =>
+  PIXEL_CLASSES[classMap.classes[y * classMap.width + x]];
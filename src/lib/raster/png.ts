@@ -0,0 +1,39 @@
+import { PNG } from 'pngjs';
+
+import type { RasterImage } from '@/lib/raster/color-detection';
+import { DEFAULT_TILE_SIZE, type TileCoord, type TileRange, type TileSize } from '@/lib/tiles/mercator';
+
+// サーバー側（Canvasが使えない環境）でのタイル画像の扱い
+
+// PNGバイト列をRGBA画素配列に変換
+export const decodePng = (data: ArrayBuffer | Uint8Array): RasterImage => {
+  const png = PNG.sync.read(Buffer.from(data instanceof Uint8Array ? data : new Uint8Array(data)));
+  return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data) };
+};
+
+// タイル画像を1枚のモザイク画像に並べる（取得できなかったタイルは透明のまま）
+export const composeMosaic = (
+  tiles: Array<{ tile: TileCoord; image: RasterImage | null }>,
+  origin: TileRange,
+  tileSize: TileSize = DEFAULT_TILE_SIZE
+): RasterImage => {
+  const width = (origin.maxX - origin.minX + 1) * tileSize;
+  const height = (origin.maxY - origin.minY + 1) * tileSize;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (const { tile, image } of tiles) {
+    if (!image) continue;
+
+    const offsetX = (tile.x - origin.minX) * tileSize;
+    const offsetY = (tile.y - origin.minY) * tileSize;
+    const rows = Math.min(image.height, tileSize);
+    const rowLength = Math.min(image.width, tileSize) * 4;
+
+    for (let y = 0; y < rows; y++) {
+      const sourceStart = y * image.width * 4;
+      data.set(image.data.subarray(sourceStart, sourceStart + rowLength), ((offsetY + y) * width + offsetX) * 4);
+    }
+  }
+
+  return { width, height, data };
+};
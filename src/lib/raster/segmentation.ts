@@ -0,0 +1,178 @@
+import axios from 'axios';
+import type { Tensor, Tensor3D } from '@tensorflow/tfjs';
+import type { GraphModel } from '@tensorflow/tfjs-converter';
+
+import type { BuildingDetector } from '@/lib/buildings/detector';
+import type { BuildingFeature } from '@/lib/buildings/types';
+import { componentPixels, labelComponents } from '@/lib/raster/components';
+import { vectorizeComponents } from '@/lib/raster/vectorize';
+import { proxiedTileUrl } from '@/lib/tiles/layers';
+import { DEFAULT_TILE_SIZE, lonLatToTilePixel } from '@/lib/tiles/mercator';
+import { DEFAULT_TILE_WINDOW, tileExtent, tilesInWindow, type TileWindow } from '@/lib/tiles/tile-range';
+
+// 航空写真（国土地理院 全国最新写真）の建物セグメンテーション（TensorFlow.js、ブラウザ専用）
+// public/models/building-segmentation に tfjs-converter 形式のモデル（model.json と重みファイル）を置く
+// モデルの入出力: 入力 [1, H, W, 3]（RGB 0〜1）、出力 [1, H, W, 1]（建物である確率 0〜1）
+// モデルが置かれていない場合は検出できない（loadSegmentationModel が null を返す）
+
+export const SEGMENTATION_MODEL_URL = '/models/building-segmentation/model.json';
+
+// 入力サイズが固定されていないモデルに渡す大きさ
+const DEFAULT_INPUT_SIZE = 256;
+
+const SEGMENTATION_ZOOM = 18;
+
+// 建物とみなす確率
+const PROBABILITY_THRESHOLD = 0.5;
+
+// ピン位置周辺の建物領域を探す半径（ピクセル単位）
+const MARKER_RADIUS = 30;
+
+// 建物として扱う最小の連結成分の画素数（写真はノイズが多いので色分析より大きくする）
+const MIN_COMPONENT_SIZE = 20;
+
+export type SegmentationModelStatus = 'loading' | 'ready' | 'unavailable';
+
+export interface SegmentationOptions {
+  tileWindow?: TileWindow;
+  signal?: AbortSignal;
+  // 処理したタイルの割合（0〜1）
+  onProgress?: (ratio: number) => void;
+}
+
+let modelPromise: Promise<GraphModel | null> | null = null;
+
+// モデルを読み込む（1度だけ。読み込めない場合は null）
+export const loadSegmentationModel = (): Promise<GraphModel | null> => {
+  modelPromise ??= (async () => {
+    try {
+      const [tf, { loadGraphModel }] = await Promise.all([
+        import('@tensorflow/tfjs'),
+        import('@tensorflow/tfjs-converter'),
+      ]);
+      await tf.ready();
+      return await loadGraphModel(SEGMENTATION_MODEL_URL);
+    } catch (error) {
+      console.warn(`Segmentation model is not available (${SEGMENTATION_MODEL_URL}):`, error);
+      return null;
+    }
+  })();
+  return modelPromise;
+};
+
+// タイル画像1枚の建物確率（タイルの画素ごと）
+const segmentTile = async (model: GraphModel, bitmap: ImageBitmap, tileSize: number): Promise<Float32Array> => {
+  const tf = await import('@tensorflow/tfjs');
+  const [, height, width] = model.inputs[0].shape ?? [];
+  const inputSize: [number, number] = [
+    height && height > 0 ? height : DEFAULT_INPUT_SIZE,
+    width && width > 0 ? width : DEFAULT_INPUT_SIZE,
+  ];
+
+  const probabilities = tf.tidy(() => {
+    const image = tf.browser.fromPixels(bitmap).toFloat().div(255) as Tensor3D;
+    const input = tf.image.resizeBilinear(image, inputSize).expandDims(0);
+    const output = model.predict(input) as Tensor;
+    const mask = output.reshape([...inputSize, 1]) as Tensor3D;
+    return tf.image.resizeBilinear(mask, [tileSize, tileSize]).reshape([tileSize * tileSize]);
+  });
+
+  try {
+    return await probabilities.data() as Float32Array;
+  } finally {
+    probabilities.dispose();
+  }
+};
+
+// ピン位置周辺の航空写真から建物ポリゴンを推定
+export const detectBuildingsBySegmentation = async (
+  lat: number,
+  lon: number,
+  options: SegmentationOptions = {}
+): Promise<BuildingFeature[]> => {
+  const { tileWindow = DEFAULT_TILE_WINDOW, signal, onProgress } = options;
+  const model = await loadSegmentationModel();
+  if (!model) throw new Error('Segmentation model is not available');
+
+  const zoom = SEGMENTATION_ZOOM;
+  const tileSize = DEFAULT_TILE_SIZE;
+  const tiles = tilesInWindow(lat, lon, zoom, tileWindow);
+  const extent = tileExtent(tiles);
+  const width = (extent.maxX - extent.minX + 1) * tileSize;
+  const height = (extent.maxY - extent.minY + 1) * tileSize;
+
+  // タイルごとに推論して1枚の確率画像に並べる（取得できなかったタイルは0のまま）
+  const probabilities = new Float32Array(width * height);
+  for (const [tileIndex, tile] of tiles.entries()) {
+    const url = proxiedTileUrl('seamlessphoto', zoom, tile.x, tile.y);
+    let bitmap: ImageBitmap;
+    try {
+      const response = await axios.get<Blob>(url, { responseType: 'blob', signal });
+      bitmap = await createImageBitmap(response.data);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`Failed to load tile: ${url}`, error);
+      continue;
+    }
+
+    try {
+      const tileProbabilities = await segmentTile(model, bitmap, tileSize);
+      const offsetX = (tile.x - extent.minX) * tileSize;
+      const offsetY = (tile.y - extent.minY) * tileSize;
+      for (let row = 0; row < tileSize; row++) {
+        probabilities.set(tileProbabilities.subarray(row * tileSize, (row + 1) * tileSize), (offsetY + row) * width + offsetX);
+      }
+    } finally {
+      bitmap.close();
+    }
+
+    if (signal?.aborted) throw new DOMException('Segmentation was aborted', 'AbortError');
+    onProgress?.((tileIndex + 1) / tiles.length);
+  }
+
+  // 確率のしきい値で建物領域に分ける
+  const mask = new Uint8Array(probabilities.length);
+  for (let i = 0; i < mask.length; i++) {
+    if (probabilities[i] >= PROBABILITY_THRESHOLD) mask[i] = 1;
+  }
+  const labeling = labelComponents(mask, width, height, {
+    connectivity: 8,
+    minSize: MIN_COMPONENT_SIZE,
+  });
+
+  // ピン位置周辺に画素を持つ成分を選ぶ
+  const origin = { tileX: extent.minX, tileY: extent.minY, zoom };
+  const [markerX, markerY] = lonLatToTilePixel([lon, lat], { x: extent.minX, y: extent.minY, z: zoom }, tileSize);
+  const pixelX = Math.floor(markerX);
+  const pixelY = Math.floor(markerY);
+  const nearbyLabels = new Set<number>();
+  for (let y = Math.max(0, pixelY - MARKER_RADIUS); y <= Math.min(height - 1, pixelY + MARKER_RADIUS); y++) {
+    for (let x = Math.max(0, pixelX - MARKER_RADIUS); x <= Math.min(width - 1, pixelX + MARKER_RADIUS); x++) {
+      if ((x - pixelX) ** 2 + (y - pixelY) ** 2 > MARKER_RADIUS ** 2) continue;
+      const label = labeling.labels[y * width + x];
+      if (label !== 0) nearbyLabels.add(label);
+    }
+  }
+
+  const components = labeling.components.filter(component => nearbyLabels.has(component.label));
+
+  // 成分内の平均確率を確信度とする
+  return vectorizeComponents(labeling, components, origin, lat, {
+    building: 'segmented',
+    source: 'segmentation',
+    properties: component => {
+      const pixels = componentPixels(labeling, component);
+      const sum = pixels.reduce((total, [x, y]) => total + probabilities[y * width + x], 0);
+      return { confidence: sum / pixels.length };
+    },
+  });
+};
+
+// 検出器としての登録（建物ごとに確信度を付けるので capabilities.confidence は使われない）
+export const SEGMENTATION_DETECTOR: BuildingDetector = {
+  name: 'segmentation',
+  label: '航空写真のセグメンテーション',
+  capabilities: { kind: 'raster', environment: 'browser', confidence: PROBABILITY_THRESHOLD },
+  detect: (lat, lon, { tileWindow, signal, onProgress }) =>
+    detectBuildingsBySegmentation(lat, lon, { tileWindow, signal, onProgress }),
+};
@@ -0,0 +1,78 @@
+import type { BuildingFeature } from '@/lib/buildings/types';
+import { geometryFromPolygons, orientRing } from '@/lib/geo/polygon';
+import { simplifyRing } from '@/lib/geo/simplify';
+import type { RasterOrigin } from '@/lib/raster/color-detection';
+import { componentPixels, type ComponentLabeling, type ComponentStats } from '@/lib/raster/components';
+import { traceRegion, type PixelPolygon } from '@/lib/raster/contour';
+import { DEFAULT_TILE_SIZE, groundResolution, tilePixelToLonLat, type TileCoord } from '@/lib/tiles/mercator';
+
+// 連結成分（画像上の建物領域）を建物ポリゴンに変換する
+
+// 輪郭の簡略化の許容誤差（メートル）
+const SIMPLIFY_TOLERANCE_METERS = 0.5;
+
+export interface VectorizeOptions {
+  building: string;
+  source: string;
+  // 成分ごとに追加する属性
+  properties?: (component: ComponentStats) => Partial<BuildingFeature['properties']>;
+  // 変換済みの成分の割合（0〜1）
+  onProgress?: (ratio: number) => void;
+}
+
+// 画素座標のポリゴンを簡略化（潰れた穴は除き、外周が潰れた場合は null）
+const simplifyPixelPolygon = (polygon: PixelPolygon, tolerance: number): PixelPolygon | null => {
+  const [outer, ...holes] = polygon;
+  const simplifiedOuter = simplifyRing(outer, tolerance);
+  if (!simplifiedOuter) return null;
+
+  const simplifiedHoles = holes
+    .map(hole => simplifyRing(hole, tolerance))
+    .filter((hole): hole is number[][] => hole !== null);
+  return [simplifiedOuter, ...simplifiedHoles];
+};
+
+// 各成分の輪郭（中庭などの穴を含む）を追跡・簡略化して地理座標のポリゴンにする（lat は画素の大きさの基準緯度）
+export const vectorizeComponents = (
+  labeling: ComponentLabeling,
+  components: ComponentStats[],
+  origin: RasterOrigin,
+  lat: number,
+  options: VectorizeOptions
+): BuildingFeature[] => {
+  const { tileX, tileY, zoom, tileSize = DEFAULT_TILE_SIZE } = origin;
+  const originTile: TileCoord = { x: tileX, y: tileY, z: zoom };
+  const features: BuildingFeature[] = [];
+  const pixelResolution = groundResolution(lat, zoom, tileSize);
+  const tolerance = SIMPLIFY_TOLERANCE_METERS / pixelResolution;
+
+  for (const [componentIndex, component] of components.entries()) {
+    options.onProgress?.(componentIndex / components.length);
+
+    const pixelPolygons = traceRegion(componentPixels(labeling, component))
+      .map(polygon => simplifyPixelPolygon(polygon, tolerance))
+      .filter((polygon): polygon is PixelPolygon => polygon !== null);
+    if (pixelPolygons.length === 0) continue;
+
+    // ピクセル座標から地理座標に変換（外周は反時計回り、穴は時計回り）
+    const geoPolygons = pixelPolygons.map(polygon => polygon.map((ring, ringIndex) =>
+      orientRing(ring.map(([x, y]) => tilePixelToLonLat([x, y], originTile, tileSize)), ringIndex === 0)
+    ));
+
+    features.push({
+      type: 'Feature',
+      geometry: geometryFromPolygons(geoPolygons),
+      properties: {
+        id: features.length + 1,
+        building: options.building,
+        source: options.source,
+        pixelCount: component.area,
+        pixelResolution,
+        ...options.properties?.(component),
+      }
+    });
+  }
+
+  options.onProgress?.(1);
+  return features;
+};
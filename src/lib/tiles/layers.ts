@@ -0,0 +1,107 @@
+// タイルプロキシが中継する上流タイルの定義
+// ここにないレイヤーは中継しない（任意URLを取得させない）
+
+export interface TileLayerConfig {
+  // {z}/{x}/{y} を置換するURLテンプレート
+  url: string;
+  minZoom: number;
+  maxZoom: number;
+  // URL末尾に付けてもよい拡張子
+  extension: 'png' | 'jpg' | 'webp' | 'pbf';
+  // 既定のContent-Type（上流へのAcceptにも使う）
+  contentType: string;
+  // データのないタイルを204で返すか（ベクトルタイル）。falseなら404
+  emptyAsNoContent: boolean;
+}
+
+export const TILE_LAYERS = {
+  // 国土地理院 標準地図
+  std: {
+    url: 'https://cyberjapandata.gsi.go.jp/xyz/std/{z}/{x}/{y}.png',
+    minZoom: 2,
+    maxZoom: 18,
+    extension: 'png',
+    contentType: 'image/png',
+    emptyAsNoContent: false,
+  },
+  // 国土地理院 淡色地図
+  pale: {
+    url: 'https://cyberjapandata.gsi.go.jp/xyz/pale/{z}/{x}/{y}.png',
+    minZoom: 2,
+    maxZoom: 18,
+    extension: 'png',
+    contentType: 'image/png',
+    emptyAsNoContent: false,
+  },
+  // 国土地理院 全国最新写真（シームレス）
+  seamlessphoto: {
+    url: 'https://cyberjapandata.gsi.go.jp/xyz/seamlessphoto/{z}/{x}/{y}.jpg',
+    minZoom: 2,
+    maxZoom: 18,
+    extension: 'jpg',
+    contentType: 'image/jpeg',
+    emptyAsNoContent: false,
+  },
+  // 国土地理院 建物ベクトルタイル
+  building: {
+    url: 'https://cyberjapandata.gsi.go.jp/xyz/building/{z}/{x}/{y}.pbf',
+    minZoom: 14,
+    maxZoom: 18,
+    extension: 'pbf',
+    contentType: 'application/x-protobuf',
+    emptyAsNoContent: true,
+  },
+} as const satisfies Record<string, TileLayerConfig>;
+
+export type TileLayerName = keyof typeof TILE_LAYERS;
+
+export const isTileLayerName = (value: string): value is TileLayerName =>
+  Object.prototype.hasOwnProperty.call(TILE_LAYERS, value);
+
+// 上流タイルのURL
+export const tileUrl = (layer: TileLayerName, z: number, x: number, y: number): string =>
+  TILE_LAYERS[layer].url
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+
+// タイルプロキシ経由のURL（ブラウザから使う）
+export const proxiedTileUrl = (layer: TileLayerName, z: number, x: number, y: number): string =>
+  `/api/map-tile/${layer}/${z}/${x}/${y}`;
+
+const parseInteger = (value: string): number | null => /^\d+$/.test(value) ? Number(value) : null;
+
+export type TileRequestParseResult =
+  | { ok: true; layer: TileLayerName; z: number; x: number; y: number }
+  | { ok: false; status: 400 | 404; error: string };
+
+// ルートパラメータ（layer/z/x/y、yには拡張子を付けてもよい）を検証する
+export const parseTileRequest = (params: { layer: string; z: string; x: string; y: string }): TileRequestParseResult => {
+  if (!isTileLayerName(params.layer)) {
+    return { ok: false, status: 404, error: `Unknown tile layer: ${params.layer}` };
+  }
+
+  const layer = params.layer;
+  const config = TILE_LAYERS[layer];
+  const yValue = params.y.endsWith(`.${config.extension}`)
+    ? params.y.slice(0, -(config.extension.length + 1))
+    : params.y;
+
+  const z = parseInteger(params.z);
+  const x = parseInteger(params.x);
+  const y = parseInteger(yValue);
+
+  if (z === null || x === null || y === null) {
+    return { ok: false, status: 400, error: 'Tile coordinates must be non-negative integers' };
+  }
+  if (z < config.minZoom || z > config.maxZoom) {
+    return { ok: false, status: 400, error: `Zoom must be between ${config.minZoom} and ${config.maxZoom} for ${layer}` };
+  }
+
+  const n = Math.pow(2, z);
+  if (x >= n || y >= n) {
+    return { ok: false, status: 400, error: `Tile coordinates out of range for zoom ${z}` };
+  }
+
+  return { ok: true, layer, z, x, y };
+};
@@ -0,0 +1,173 @@
+// Web Mercator（EPSG:3857）のタイル座標計算
+// 経度緯度 ↔ タイル番号 ↔ 全体ピクセル座標 ↔ タイル内ピクセル座標の変換をここにまとめる
+// 経度緯度は GeoJSON と同じ [経度, 緯度] の順
+// 変換は小数のまま行い丸めないため、経度緯度 ↔ ピクセルを往復しても誤差は1e-6ピクセル未満（ズーム22・512pxタイルまで）
+
+export type LonLat = [number, number];
+// ピクセル座標 [x, y]（右・下が正）
+export type PixelPoint = [number, number];
+
+export interface TileCoord {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// タイル番号の範囲（両端を含む）
+export interface TileRange {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// [西, 南, 東, 北]
+export type LonLatBounds = [number, number, number, number];
+
+// 通常のタイルは256px、高解像度（@2x）タイルは512px
+export type TileSize = 256 | 512;
+export const DEFAULT_TILE_SIZE: TileSize = 256;
+
+// メルカトル図法で表せる緯度の上限（地図全体が正方形になる緯度）
+export const MAX_LATITUDE = 85.0511287798066;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+// 経度緯度を0〜1の正規化座標に変換（左上が原点）
+const lonLatToWorld = ([lon, lat]: LonLat): [number, number] => {
+  const sin = Math.sin(clamp(lat, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI / 180);
+  return [
+    (lon + 180) / 360,
+    0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI),
+  ];
+};
+
+const worldToLonLat = ([x, y]: [number, number]): LonLat => [
+  x * 360 - 180,
+  (180 / Math.PI) * Math.atan(Math.sinh(Math.PI * (1 - 2 * y))),
+];
+
+// ズームレベルでの1辺のタイル数
+export const tileCount = (zoom: number): number => Math.pow(2, zoom);
+
+// ズームレベルでの地図全体の1辺のピクセル数
+export const worldPixelSize = (zoom: number, tileSize: TileSize = DEFAULT_TILE_SIZE): number =>
+  tileCount(zoom) * tileSize;
+
+// 地球の半径（Web Mercatorの球）
+const EARTH_RADIUS = 6378137;
+
+// 緯度とズームレベルでの1ピクセルの地上での大きさ（m）
+export const groundResolution = (lat: number, zoom: number, tileSize: TileSize = DEFAULT_TILE_SIZE): number =>
+  Math.cos(clamp(lat, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI / 180) * 2 * Math.PI * EARTH_RADIUS / worldPixelSize(zoom, tileSize);
+
+// 経度緯度 → 全体ピクセル座標（小数のまま返す）
+export const lonLatToPixel = (lonLat: LonLat, zoom: number, tileSize: TileSize = DEFAULT_TILE_SIZE): PixelPoint => {
+  const size = worldPixelSize(zoom, tileSize);
+  const [x, y] = lonLatToWorld(lonLat);
+  return [x * size, y * size];
+};
+
+// 全体ピクセル座標 → 経度緯度
+export const pixelToLonLat = (pixel: PixelPoint, zoom: number, tileSize: TileSize = DEFAULT_TILE_SIZE): LonLat => {
+  const size = worldPixelSize(zoom, tileSize);
+  return worldToLonLat([pixel[0] / size, pixel[1] / size]);
+};
+
+// 全体ピクセル座標 → その点を含むタイル（範囲外は端のタイルに丸める）
+export const pixelToTile = (pixel: PixelPoint, zoom: number, tileSize: TileSize = DEFAULT_TILE_SIZE): TileCoord => {
+  const n = tileCount(zoom);
+  return {
+    x: clamp(Math.floor(pixel[0] / tileSize), 0, n - 1),
+    y: clamp(Math.floor(pixel[1] / tileSize), 0, n - 1),
+    z: zoom,
+  };
+};
+
+// 経度緯度 → その点を含むタイル
+export const lonLatToTile = (lonLat: LonLat, zoom: number): TileCoord =>
+  pixelToTile(lonLatToPixel(lonLat, zoom), zoom);
+
+// タイル左上の全体ピクセル座標
+export const tileOriginPixel = (tile: TileCoord, tileSize: TileSize = DEFAULT_TILE_SIZE): PixelPoint =>
+  [tile.x * tileSize, tile.y * tileSize];
+
+// 全体ピクセル座標 → 指定タイルの左上を原点とするピクセル座標（タイル外なら範囲外の値になる）
+export const pixelToTilePixel = (pixel: PixelPoint, tile: TileCoord, tileSize: TileSize = DEFAULT_TILE_SIZE): PixelPoint => {
+  const [originX, originY] = tileOriginPixel(tile, tileSize);
+  return [pixel[0] - originX, pixel[1] - originY];
+};
+
+// タイル内ピクセル座標 → 全体ピクセル座標
+export const tilePixelToPixel = (tilePixel: PixelPoint, tile: TileCoord, tileSize: TileSize = DEFAULT_TILE_SIZE): PixelPoint => {
+  const [originX, originY] = tileOriginPixel(tile, tileSize);
+  return [tilePixel[0] + originX, tilePixel[1] + originY];
+};
+
+// 経度緯度 → 指定タイルの左上を原点とするピクセル座標
+export const lonLatToTilePixel = (lonLat: LonLat, tile: TileCoord, tileSize: TileSize = DEFAULT_TILE_SIZE): PixelPoint =>
+  pixelToTilePixel(lonLatToPixel(lonLat, tile.z, tileSize), tile, tileSize);
+
+// タイル内ピクセル座標 → 経度緯度
+export const tilePixelToLonLat = (tilePixel: PixelPoint, tile: TileCoord, tileSize: TileSize = DEFAULT_TILE_SIZE): LonLat =>
+  pixelToLonLat(tilePixelToPixel(tilePixel, tile, tileSize), tile.z, tileSize);
+
+// タイル左上の経度緯度（x, y は小数でもよい）
+export const tileToLonLat = (x: number, y: number, zoom: number): LonLat => {
+  const n = tileCount(zoom);
+  return worldToLonLat([x / n, y / n]);
+};
+
+// タイルが覆う経度緯度の範囲
+export const tileBounds = (tile: TileCoord): LonLatBounds => {
+  const [west, north] = tileToLonLat(tile.x, tile.y, tile.z);
+  const [east, south] = tileToLonLat(tile.x + 1, tile.y + 1, tile.z);
+  return [west, south, east, north];
+};
+
+// タイル境界ちょうどの値を丸め誤差で隣のタイルに入れないための許容誤差（タイル単位）
+const TILE_EDGE_EPSILON = 1e-6;
+
+// 経度緯度の範囲に重なるタイル番号の範囲（東端・南端がタイル境界ちょうどなら隣のタイルは含めない）
+export const bboxToTileRange = ([west, south, east, north]: LonLatBounds, zoom: number): TileRange => {
+  const n = tileCount(zoom);
+  const [minX, minY] = lonLatToWorld([west, north]).map(value => value * n);
+  const [maxX, maxY] = lonLatToWorld([east, south]).map(value => value * n);
+
+  const first = (value: number) => clamp(Math.floor(value + TILE_EDGE_EPSILON), 0, n - 1);
+  const last = (value: number, start: number) => clamp(Math.max(Math.ceil(value - TILE_EDGE_EPSILON) - 1, start), 0, n - 1);
+
+  const startX = first(minX);
+  const startY = first(minY);
+  return { minX: startX, minY: startY, maxX: last(maxX, startX), maxY: last(maxY, startY) };
+};
+
+// タイル番号の範囲が覆う経度緯度の範囲
+export const tileRangeToBbox = (range: TileRange, zoom: number): LonLatBounds => {
+  const [west, north] = tileToLonLat(range.minX, range.minY, zoom);
+  const [east, south] = tileToLonLat(range.maxX + 1, range.maxY + 1, zoom);
+  return [west, south, east, north];
+};
+
+// 範囲内のタイルを列挙（行優先）
+export const tilesInRange = (range: TileRange, zoom: number): TileCoord[] => {
+  const tiles: TileCoord[] = [];
+  for (let y = range.minY; y <= range.maxY; y++) {
+    for (let x = range.minX; x <= range.maxX; x++) {
+      tiles.push({ x, y, z: zoom });
+    }
+  }
+  return tiles;
+};
+
+// タイル数
+export const tileRangeSize = (range: TileRange): number =>
+  (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+
+// タイル群を覆う範囲
+export const tileRangeOf = (tiles: TileCoord[]): TileRange => ({
+  minX: Math.min(...tiles.map(tile => tile.x)),
+  minY: Math.min(...tiles.map(tile => tile.y)),
+  maxX: Math.max(...tiles.map(tile => tile.x)),
+  maxY: Math.max(...tiles.map(tile => tile.y)),
+});
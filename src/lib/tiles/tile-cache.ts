@@ -0,0 +1,184 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// 地図タイルのディスクキャッシュ（サイズ上限付きLRU）
+// キーは "layer/z/x/y" 形式。データ本体（.bin）とメタデータ（.json）を並べて保存する
+
+export interface TileCacheMetadata {
+  key: string;
+  contentType: string;
+  // クライアントに返すETag（上流にETagがなければ本体のハッシュ）
+  etag: string;
+  // 上流への条件付きリクエストに使う値
+  upstreamEtag?: string;
+  lastModified?: string;
+  // 上流から取得（または再検証）した時刻（ミリ秒）
+  fetchedAt: number;
+  size: number;
+}
+
+export interface CachedTile extends TileCacheMetadata {
+  data: Buffer;
+}
+
+export interface TileCacheOptions {
+  directory: string;
+  maxBytes: number;
+}
+
+export interface TileCache {
+  get: (key: string) => Promise<CachedTile | null>;
+  set: (key: string, data: Buffer, metadata: TileCacheEntryMetadata) => Promise<CachedTile>;
+  // 再検証（304）で鮮度だけを更新する
+  touch: (key: string, fetchedAt: number) => Promise<void>;
+}
+
+// 既定200MB
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024;
+
+// キーに使える文字（パスの外に出ないよう制限する）
+const KEY_PATTERN = /^[\w.-]+(\/\d+){3}$/;
+
+export const isValidTileCacheKey = (key: string): boolean => KEY_PATTERN.test(key);
+
+export const createEtag = (data: Buffer): string =>
+  `"${createHash('sha1').update(data).digest('hex')}"`;
+
+export type TileCacheEntryMetadata = Omit<TileCacheMetadata, 'key' | 'etag' | 'size'>;
+
+const createTileMetadata = (key: string, data: Buffer, metadata: TileCacheEntryMetadata): TileCacheMetadata => ({
+  ...metadata,
+  key,
+  etag: metadata.upstreamEtag ?? createEtag(data),
+  size: data.length,
+});
+
+// キャッシュに保存する形のタイル（書き込みに失敗した場合もこの形で返す）
+export const createCachedTile = (key: string, data: Buffer, metadata: TileCacheEntryMetadata): CachedTile => ({
+  ...createTileMetadata(key, data, metadata),
+  data,
+});
+
+export const createTileCache = ({ directory, maxBytes }: TileCacheOptions): TileCache => {
+  // Mapの挿入順をLRUの順序として使う（先頭が最も古い）
+  const index = new Map<string, TileCacheMetadata>();
+  let totalBytes = 0;
+  let ready: Promise<void> | null = null;
+
+  const pathsFor = (key: string) => {
+    const base = path.join(directory, ...key.split('/'));
+    return { data: `${base}.bin`, meta: `${base}.json` };
+  };
+
+  const remember = (metadata: TileCacheMetadata) => {
+    const previous = index.get(metadata.key);
+    if (previous) {
+      totalBytes -= previous.size;
+      index.delete(metadata.key);
+    }
+    index.set(metadata.key, metadata);
+    totalBytes += metadata.size;
+  };
+
+  const remove = async (key: string) => {
+    const metadata = index.get(key);
+    if (metadata) {
+      totalBytes -= metadata.size;
+      index.delete(key);
+    }
+    const paths = pathsFor(key);
+    await Promise.all([fs.rm(paths.data, { force: true }), fs.rm(paths.meta, { force: true })]);
+  };
+
+  const evict = async () => {
+    for (const key of index.keys()) {
+      if (totalBytes <= maxBytes) break;
+      await remove(key);
+    }
+  };
+
+  // 起動後最初のアクセス時に既存のキャッシュを読み込む（古い順に並べる）
+  const load = async () => {
+    const found: TileCacheMetadata[] = [];
+
+    const walk = async (dir: string) => {
+      const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.name.endsWith('.json')) {
+          try {
+            const metadata = JSON.parse(await fs.readFile(entryPath, 'utf8')) as TileCacheMetadata;
+            if (isValidTileCacheKey(metadata.key)) found.push(metadata);
+          } catch {
+            // 壊れたメタデータは無視する
+          }
+        }
+      }
+    };
+
+    await walk(directory);
+    found.sort((a, b) => a.fetchedAt - b.fetchedAt).forEach(remember);
+    await evict();
+  };
+
+  const init = () => {
+    ready ??= load().catch(error => {
+      console.error('Tile cache load error:', error);
+    });
+    return ready;
+  };
+
+  const get = async (key: string): Promise<CachedTile | null> => {
+    await init();
+    const metadata = index.get(key);
+    if (!metadata) return null;
+
+    try {
+      const data = await fs.readFile(pathsFor(key).data);
+      // 最近使ったものとして末尾に移動
+      remember(metadata);
+      return { ...metadata, data };
+    } catch {
+      await remove(key);
+      return null;
+    }
+  };
+
+  const set = async (key: string, data: Buffer, metadata: TileCacheEntryMetadata): Promise<CachedTile> => {
+    await init();
+    const entry = createTileMetadata(key, data, metadata);
+
+    if (data.length <= maxBytes) {
+      const paths = pathsFor(key);
+      await fs.mkdir(path.dirname(paths.data), { recursive: true });
+      await fs.writeFile(paths.data, data);
+      await fs.writeFile(paths.meta, JSON.stringify(entry));
+      remember(entry);
+      await evict();
+    }
+
+    return { ...entry, data };
+  };
+
+  const touch = async (key: string, fetchedAt: number) => {
+    await init();
+    const metadata = index.get(key);
+    if (!metadata) return;
+
+    const updated = { ...metadata, fetchedAt };
+    remember(updated);
+    await fs.writeFile(pathsFor(key).meta, JSON.stringify(updated)).catch(() => undefined);
+  };
+
+  return { get, set, touch };
+};
+
+// サーバー全体で共有するキャッシュ
+export const tileCache = createTileCache({
+  directory: process.env.TILE_CACHE_DIR || path.join(os.tmpdir(), 'building-map-app', 'tiles'),
+  maxBytes: Number(process.env.TILE_CACHE_MAX_BYTES) || DEFAULT_MAX_BYTES,
+});
@@ -0,0 +1,152 @@
+import { createCachedTile, tileCache, type CachedTile } from '@/lib/tiles/tile-cache';
+import { fetchUpstream } from '@/lib/tiles/upstream';
+
+// キャッシュを介した上流タイルの取得
+
+// キャッシュしたタイルを再検証せずに返す期間
+export const TILE_MAX_AGE_SECONDS = 3600;
+
+export type TileCacheStatus = 'HIT' | 'MISS' | 'REVALIDATED' | 'STALE';
+
+// tile が null の場合は上流にそのタイルのデータがない（404）
+export interface TileProxyResult {
+  cacheStatus: TileCacheStatus;
+  tile: CachedTile | null;
+}
+
+export interface UpstreamTileRequest {
+  url: string;
+  headers: Record<string, string>;
+  // 上流が対応形式のContent-Typeを返さない場合に使う形式
+  contentType: string;
+}
+
+// 中継するタイルの形式
+const SUPPORTED_CONTENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'application/x-protobuf',
+  'application/vnd.mapbox-vector-tile',
+];
+
+// 上流のContent-Typeをそのまま使い、未対応（octet-stream等）ならレイヤーの既定値にする
+export const resolveContentType = (upstream: string | null, fallback: string): string => {
+  const mediaType = upstream?.split(';')[0].trim().toLowerCase();
+  return mediaType && SUPPORTED_CONTENT_TYPES.includes(mediaType) ? mediaType : fallback;
+};
+
+// 上流にデータのなかったタイルを、再び問い合わせずに404として扱う期間
+export const MISSING_TILE_MAX_AGE_SECONDS = 300;
+
+// 覚えておくデータのないタイルの数の上限（超えたら古いものから忘れる）
+const MAX_MISSING_TILES = 10000;
+
+// 取得中のタイル（同じタイルへの同時リクエストは1回の取得にまとめる）
+const inFlight = new Map<string, Promise<TileProxyResult>>();
+
+// データのなかったタイルのキーと、上流で確認した時刻（Mapの挿入順が古い順）
+const missingTiles = new Map<string, number>();
+
+const isFresh = (tile: CachedTile, now: number): boolean =>
+  now - tile.fetchedAt < TILE_MAX_AGE_SECONDS * 1000;
+
+const isKnownMissing = (key: string, now: number): boolean => {
+  const checkedAt = missingTiles.get(key);
+  if (checkedAt === undefined) return false;
+  if (now - checkedAt < MISSING_TILE_MAX_AGE_SECONDS * 1000) return true;
+
+  missingTiles.delete(key);
+  return false;
+};
+
+const rememberMissing = (key: string, now: number) => {
+  missingTiles.delete(key);
+  missingTiles.set(key, now);
+  for (const oldest of missingTiles.keys()) {
+    if (missingTiles.size <= MAX_MISSING_TILES) break;
+    missingTiles.delete(oldest);
+  }
+};
+
+const loadTile = async (
+  key: string,
+  { url, headers, contentType }: UpstreamTileRequest
+): Promise<TileProxyResult> => {
+  const now = Date.now();
+  if (isKnownMissing(key, now)) {
+    return { cacheStatus: 'HIT', tile: null };
+  }
+
+  const cached = await tileCache.get(key);
+
+  if (cached && isFresh(cached, now)) {
+    return { cacheStatus: 'HIT', tile: cached };
+  }
+
+  const conditionalHeaders: Record<string, string> = { ...headers };
+  if (cached?.upstreamEtag) conditionalHeaders['If-None-Match'] = cached.upstreamEtag;
+  if (cached?.lastModified) conditionalHeaders['If-Modified-Since'] = cached.lastModified;
+
+  try {
+    const response = await fetchUpstream(url, { headers: conditionalHeaders });
+
+    if (response.status === 304 && cached) {
+      await tileCache.touch(key, now);
+      return { cacheStatus: 'REVALIDATED', tile: { ...cached, fetchedAt: now } };
+    }
+
+    // データのない範囲のタイル
+    if (response.status === 404) {
+      rememberMissing(key, now);
+      return { cacheStatus: 'MISS', tile: null };
+    }
+
+    if (!response.ok || !response.data) {
+      throw new Error(`Failed to fetch tile: ${response.status}`);
+    }
+
+    const { data } = response;
+    const metadata = {
+      contentType: resolveContentType(response.headers.get('Content-Type'), contentType),
+      upstreamEtag: response.headers.get('ETag') ?? undefined,
+      lastModified: response.headers.get('Last-Modified') ?? undefined,
+      fetchedAt: now,
+    };
+
+    // キャッシュへの書き込み（ディスクの容量不足・権限など）に失敗しても、取得したタイルはそのまま返す
+    const tile = await tileCache.set(key, data, metadata).catch(error => {
+      console.error(`Tile cache write error (${key}):`, error);
+      return createCachedTile(key, data, metadata);
+    });
+
+    return { cacheStatus: 'MISS', tile };
+  } catch (error) {
+    if (cached) {
+      console.warn(`Serving stale tile ${key}:`, error instanceof Error ? error.message : error);
+      return { cacheStatus: 'STALE', tile: cached };
+    }
+    throw error;
+  }
+};
+
+// キャッシュが新しければそのまま返し、古ければ条件付きリクエストで再検証する
+// 上流が失敗した場合は古いキャッシュを返す
+export const fetchTileWithCache = (key: string, request: UpstreamTileRequest): Promise<TileProxyResult> => {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const promise = loadTile(key, request).finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+};
+
+// 弱い比較のためにW/を除く（上流の弱いETagはそのまま保存しているので、両方に使う）
+const weakEtag = (etag: string): string => etag.trim().replace(/^W\//, '');
+
+// クライアントのIf-None-Matchが現在のETagと一致するか
+export const matchesEtag = (ifNoneMatch: string | null, etag: string): boolean => {
+  if (!ifNoneMatch) return false;
+  const current = weakEtag(etag);
+  return ifNoneMatch.split(',').map(weakEtag).some(value => value === current || value === '*');
+};
@@ -0,0 +1,54 @@
+import {
+  bboxToTileRange,
+  lonLatToTile,
+  tileCount,
+  tileRangeOf,
+  tileRangeSize,
+  tilesInRange,
+  type LonLatBounds,
+  type TileCoord,
+  type TileRange,
+} from '@/lib/tiles/mercator';
+
+// 建物取得の対象とするタイル範囲の指定
+
+// 地点周辺の半径（タイル数）または経度緯度の矩形で範囲を指定する
+export type TileWindow =
+  | { type: 'tiles'; radius: number } // radius: 1 → 3×3タイル
+  | { type: 'bbox'; bbox: LonLatBounds }; // [西, 南, 東, 北]
+
+export const DEFAULT_TILE_WINDOW: TileWindow = { type: 'tiles', radius: 1 };
+
+// 一度に取得するタイル数の上限（誤った指定で大量のリクエストを送らないため）
+export const MAX_WINDOW_TILES = 49;
+
+const clampTile = (value: number, n: number): number => Math.min(Math.max(value, 0), n - 1);
+
+// 範囲指定に含まれるタイルを列挙（行優先）
+export const tilesInWindow = (lat: number, lon: number, zoom: number, window: TileWindow): TileCoord[] => {
+  let range: TileRange;
+
+  if (window.type === 'tiles') {
+    const n = tileCount(zoom);
+    const radius = Math.max(0, Math.floor(window.radius));
+    const center = lonLatToTile([lon, lat], zoom);
+    range = {
+      minX: clampTile(center.x - radius, n),
+      minY: clampTile(center.y - radius, n),
+      maxX: clampTile(center.x + radius, n),
+      maxY: clampTile(center.y + radius, n),
+    };
+  } else {
+    range = bboxToTileRange(window.bbox, zoom);
+  }
+
+  const count = tileRangeSize(range);
+  if (count > MAX_WINDOW_TILES) {
+    throw new Error(`Tile window too large: ${count} tiles (max ${MAX_WINDOW_TILES})`);
+  }
+
+  return tilesInRange(range, zoom);
+};
+
+// タイル群を覆う矩形（タイル番号の範囲）
+export const tileExtent = (tiles: TileCoord[]): TileRange => tileRangeOf(tiles);
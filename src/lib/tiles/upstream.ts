@@ -0,0 +1,141 @@
+// 上流タイルサーバーへのリクエスト
+// ホストごとの同時接続数の制限、タイムアウト、ジッター付きのリトライ、429/503のRetry-Afterに従う待機を行う
+
+export interface UpstreamFetchOptions {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  // 最初の試行に加えて再試行する回数
+  retries?: number;
+}
+
+// 1ホストあたりの同時リクエスト数
+export const MAX_CONCURRENT_PER_HOST = 6;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 250;
+// これより長く待つ必要がある場合は待たずに失敗させる（古いキャッシュで応答できるように）
+const MAX_RETRY_DELAY_MS = 10000;
+
+// 一時的な失敗とみなすステータス
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+interface HostState {
+  active: number;
+  // 接続枠が空くのを待っているリクエスト
+  queue: Array<() => void>;
+  // Retry-After で指定された再開時刻（ミリ秒）
+  blockedUntil: number;
+}
+
+const hosts = new Map<string, HostState>();
+
+const hostStateOf = (host: string): HostState => {
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, queue: [], blockedUntil: 0 };
+    hosts.set(host, state);
+  }
+  return state;
+};
+
+const acquire = (state: HostState): Promise<void> => {
+  if (state.active < MAX_CONCURRENT_PER_HOST) {
+    state.active++;
+    return Promise.resolve();
+  }
+  return new Promise(resolve => state.queue.push(resolve));
+};
+
+// 待っているリクエストがあれば枠をそのまま引き渡す
+const release = (state: HostState) => {
+  const next = state.queue.shift();
+  if (next) {
+    next();
+  } else {
+    state.active--;
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 指数バックオフ（フルジッター）
+const backoffDelay = (attempt: number): number =>
+  Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, attempt));
+
+// Retry-After（秒数またはHTTP日付）を待ち時間（ミリ秒）に変換する
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | null => {
+  if (!value) return null;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim()) * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+// 上流のレスポンス（本文は接続枠を返す前に読み終えておく）
+export interface UpstreamResponse {
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  // 成功（2xx）の場合の本文。それ以外の本文は読まずに破棄する
+  data: Buffer | null;
+}
+
+// 本文を読み終える（または破棄する）まで接続枠を保持し、同時接続数の制限をダウンロードにも効かせる
+const request = async (
+  state: HostState,
+  url: string,
+  headers: Record<string, string> | undefined,
+  timeoutMs: number
+): Promise<UpstreamResponse> => {
+  await acquire(state);
+  try {
+    const response = await fetch(url, { headers, signal: AbortSignal.timeout(timeoutMs) });
+    const { status, ok } = response;
+    if (!ok) {
+      await response.body?.cancel();
+      return { status, ok, headers: response.headers, data: null };
+    }
+    return { status, ok, headers: response.headers, data: Buffer.from(await response.arrayBuffer()) };
+  } finally {
+    release(state);
+  }
+};
+
+// 上流へリクエストし、一時的な失敗は再試行する
+// 再試行しても失敗した場合は最後のレスポンスを返す（ネットワークエラー・タイムアウトは例外）
+export const fetchUpstream = async (url: string, options: UpstreamFetchOptions = {}): Promise<UpstreamResponse> => {
+  const { headers, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+  const host = new URL(url).host;
+  const state = hostStateOf(host);
+
+  for (let attempt = 0; ; attempt++) {
+    // 上流から待つよう指示されている間は送らない
+    const wait = state.blockedUntil - Date.now();
+    if (wait > MAX_RETRY_DELAY_MS) {
+      throw new Error(`Upstream ${host} asked to retry after ${Math.ceil(wait / 1000)}s`);
+    }
+    if (wait > 0) await sleep(wait);
+
+    let response: UpstreamResponse;
+    try {
+      response = await request(state, url, headers, timeoutMs);
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    if (!RETRYABLE_STATUSES.has(response.status)) return response;
+
+    const retryAfter = (response.status === 429 || response.status === 503)
+      ? parseRetryAfter(response.headers.get('Retry-After'))
+      : null;
+    if (retryAfter !== null) {
+      state.blockedUntil = Math.max(state.blockedUntil, Date.now() + retryAfter);
+    }
+
+    if (attempt >= retries) return response;
+    if (retryAfter === null) await sleep(backoffDelay(attempt));
+  }
+};
@@ -0,0 +1,250 @@
+import * as protobuf from 'protobufjs';
+
+import type { FeatureAttributes } from '@/lib/buildings/types';
+import { tileToLonLat, type LonLat } from '@/lib/tiles/mercator';
+
+// Mapbox Vector Tile 2.1 のスキーマ（拡張フィールドは不要なため省略）
+// https://github.com/mapbox/vector-tile-spec/blob/master/2.1/vector_tile.proto
+const VECTOR_TILE_PROTO = `
+syntax = "proto2";
+package vector_tile;
+
+message Tile {
+  enum GeomType {
+    UNKNOWN = 0;
+    POINT = 1;
+    LINESTRING = 2;
+    POLYGON = 3;
+  }
+
+  message Value {
+    optional string string_value = 1;
+    optional float float_value = 2;
+    optional double double_value = 3;
+    optional int64 int_value = 4;
+    optional uint64 uint_value = 5;
+    optional sint64 sint_value = 6;
+    optional bool bool_value = 7;
+  }
+
+  message Feature {
+    optional uint64 id = 1 [default = 0];
+    repeated uint32 tags = 2 [packed = true];
+    optional GeomType type = 3 [default = UNKNOWN];
+    repeated uint32 geometry = 4 [packed = true];
+  }
+
+  message Layer {
+    required uint32 version = 15 [default = 1];
+    required string name = 1;
+    repeated Feature features = 2;
+    repeated string keys = 3;
+    repeated Value values = 4;
+    optional uint32 extent = 5 [default = 4096];
+  }
+
+  repeated Layer layers = 3;
+}
+`;
+
+export const GEOM_TYPE = {
+  UNKNOWN: 0,
+  POINT: 1,
+  LINESTRING: 2,
+  POLYGON: 3,
+} as const;
+
+// ジオメトリコマンド
+const COMMAND_MOVE_TO = 1;
+const COMMAND_LINE_TO = 2;
+const COMMAND_CLOSE_PATH = 7;
+
+interface RawValue {
+  stringValue?: string;
+  floatValue?: number;
+  doubleValue?: number;
+  intValue?: number;
+  uintValue?: number;
+  sintValue?: number;
+  boolValue?: boolean;
+}
+
+interface RawFeature {
+  id?: number;
+  tags?: number[];
+  type?: number;
+  geometry?: number[];
+}
+
+interface RawLayer {
+  version: number;
+  name: string;
+  features?: RawFeature[];
+  keys?: string[];
+  values?: RawValue[];
+  extent?: number;
+}
+
+// タイル内座標（0〜extent）の点
+export type TilePoint = [number, number];
+
+export interface VectorTileFeature {
+  id: number;
+  type: number;
+  properties: FeatureAttributes;
+  // タイル内座標のリング／ライン（コマンド単位で分割済み）
+  geometry: TilePoint[][];
+}
+
+export interface VectorTileLayer {
+  name: string;
+  version: number;
+  extent: number;
+  features: VectorTileFeature[];
+}
+
+let tileType: protobuf.Type | null = null;
+
+const getTileType = (): protobuf.Type => {
+  if (!tileType) {
+    tileType = protobuf.parse(VECTOR_TILE_PROTO, { keepCase: false }).root.lookupType('vector_tile.Tile');
+  }
+  return tileType;
+};
+
+const zigzagDecode = (value: number): number => (value >>> 1) ^ -(value & 1);
+
+// Valueメッセージから実際の値を取り出す
+const decodeValue = (value: RawValue): string | number | boolean | undefined => {
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.floatValue !== undefined) return value.floatValue;
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.intValue !== undefined) return value.intValue;
+  if (value.uintValue !== undefined) return value.uintValue;
+  if (value.sintValue !== undefined) return value.sintValue;
+  if (value.boolValue !== undefined) return value.boolValue;
+  return undefined;
+};
+
+// タグ配列（key/valueインデックスの組）を属性オブジェクトに変換
+const decodeProperties = (tags: number[], keys: string[], values: RawValue[]): FeatureAttributes => {
+  const properties: FeatureAttributes = {};
+
+  for (let i = 0; i + 1 < tags.length; i += 2) {
+    const key = keys[tags[i]];
+    const rawValue = values[tags[i + 1]];
+    if (key === undefined || rawValue === undefined) continue;
+
+    const value = decodeValue(rawValue);
+    if (value !== undefined) {
+      properties[key] = value;
+    }
+  }
+
+  return properties;
+};
+
+// ジオメトリコマンド列をタイル内座標の線列に展開
+export const decodeGeometry = (commands: number[]): TilePoint[][] => {
+  const lines: TilePoint[][] = [];
+  let line: TilePoint[] | null = null;
+  let x = 0;
+  let y = 0;
+  let i = 0;
+
+  while (i < commands.length) {
+    const commandInteger = commands[i++];
+    const command = commandInteger & 0x7;
+    const count = commandInteger >> 3;
+
+    if (command === COMMAND_MOVE_TO || command === COMMAND_LINE_TO) {
+      for (let n = 0; n < count && i + 1 < commands.length; n++) {
+        x += zigzagDecode(commands[i++]);
+        y += zigzagDecode(commands[i++]);
+
+        if (command === COMMAND_MOVE_TO) {
+          if (line) lines.push(line);
+          line = [];
+        }
+        line?.push([x, y]);
+      }
+    } else if (command === COMMAND_CLOSE_PATH) {
+      if (line && line.length > 0) {
+        line.push([line[0][0], line[0][1]]);
+      }
+    } else {
+      throw new Error(`Unknown vector tile geometry command: ${command}`);
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines;
+};
+
+// タイル内座標でのリングの符号付き面積（y軸下向き）
+const signedArea = (ring: TilePoint[]): number => {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[i][0] - ring[j][0]) * (ring[i][1] + ring[j][1]);
+  }
+  return sum;
+};
+
+// ポリゴンのリング列を外周ごとにまとめる（外周の後に続く逆回りのリングは穴）
+export const classifyRings = (rings: TilePoint[][]): TilePoint[][][] => {
+  const polygons: TilePoint[][][] = [];
+  let polygon: TilePoint[][] | null = null;
+  let exteriorIsNegative: boolean | null = null;
+
+  for (const ring of rings) {
+    const area = signedArea(ring);
+    if (area === 0 || ring.length < 4) continue;
+
+    const isNegative = area < 0;
+    if (exteriorIsNegative === null) exteriorIsNegative = isNegative;
+
+    if (isNegative === exteriorIsNegative) {
+      if (polygon) polygons.push(polygon);
+      polygon = [ring];
+    } else if (polygon) {
+      polygon.push(ring);
+    }
+  }
+
+  if (polygon) polygons.push(polygon);
+  return polygons;
+};
+
+// タイル内座標を経度緯度に変換
+export const tilePointToLonLat = (
+  point: TilePoint,
+  extent: number,
+  tileX: number,
+  tileY: number,
+  zoom: number
+): LonLat => tileToLonLat(tileX + point[0] / extent, tileY + point[1] / extent, zoom);
+
+// PBFバイト列をレイヤー単位に復号
+export const decodeVectorTile = (data: ArrayBuffer | Uint8Array): VectorTileLayer[] => {
+  const type = getTileType();
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const message = type.decode(bytes);
+  const tile = type.toObject(message, { longs: Number, enums: Number }) as { layers?: RawLayer[] };
+
+  return (tile.layers ?? []).map(layer => {
+    const keys = layer.keys ?? [];
+    const values = layer.values ?? [];
+
+    return {
+      name: layer.name,
+      version: layer.version,
+      extent: layer.extent || 4096,
+      features: (layer.features ?? []).map(feature => ({
+        id: feature.id ?? 0,
+        type: feature.type ?? GEOM_TYPE.UNKNOWN,
+        properties: decodeProperties(feature.tags ?? [], keys, values),
+        geometry: decodeGeometry(feature.geometry ?? []),
+      })),
+    };
+  });
+};
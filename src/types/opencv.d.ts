@@ -0,0 +1,73 @@
+// opencv.js（型定義が同梱されていないため、このリポジトリで使う範囲だけを定義する）
+// Emscripten のモジュールそのものがエクスポートされる。読み込みは同期的に終わる
+
+declare module 'opencv.js' {
+  namespace cv {
+    // emscripten のヒープ上のオブジェクト（使い終わったら delete で解放する）
+    interface Deletable {
+      delete(): void;
+    }
+
+    class Mat implements Deletable {
+      constructor();
+      constructor(rows: number, cols: number, type: number);
+      constructor(rows: number, cols: number, type: number, scalar: Scalar);
+      static zeros(rows: number, cols: number, type: number): Mat;
+      rows: number;
+      cols: number;
+      data: Uint8Array;
+      data32S: Int32Array;
+      type(): number;
+      clone(): Mat;
+      delete(): void;
+    }
+
+    class MatVector implements Deletable {
+      constructor();
+      size(): number;
+      get(index: number): Mat;
+      push_back(mat: Mat): void;
+      delete(): void;
+    }
+
+    class Scalar {
+      constructor(v0: number, v1?: number, v2?: number, v3?: number);
+    }
+
+    class Size {
+      constructor(width: number, height: number);
+    }
+
+    class Point {
+      constructor(x: number, y: number);
+    }
+
+    const CV_8UC1: number;
+    const CV_8UC4: number;
+    const COLOR_RGBA2RGB: number;
+    const COLOR_RGB2Lab: number;
+    const MORPH_RECT: number;
+    const MORPH_CROSS: number;
+    const MORPH_OPEN: number;
+    const MORPH_CLOSE: number;
+    const RETR_CCOMP: number;
+    const CHAIN_APPROX_SIMPLE: number;
+
+    function cvtColor(src: Mat, dst: Mat, code: number, dstCn?: number): void;
+    function inRange(src: Mat, lowerb: Mat, upperb: Mat, dst: Mat): void;
+    function bitwise_or(src1: Mat, src2: Mat, dst: Mat): void;
+    function bitwise_and(src1: Mat, src2: Mat, dst: Mat): void;
+    function bitwise_not(src: Mat, dst: Mat): void;
+    function countNonZero(src: Mat): number;
+    function getStructuringElement(shape: number, size: Size): Mat;
+    function morphologyEx(src: Mat, dst: Mat, op: number, kernel: Mat): void;
+    function dilate(src: Mat, dst: Mat, kernel: Mat): void;
+    function findContours(image: Mat, contours: MatVector, hierarchy: Mat, mode: number, method: number): void;
+    function drawContours(image: Mat, contours: MatVector, contourIdx: number, color: Scalar, thickness?: number): void;
+    function contourArea(contour: Mat, oriented?: boolean): number;
+    function approxPolyDP(curve: Mat, approxCurve: Mat, epsilon: number, closed: boolean): void;
+    function pointPolygonTest(contour: Mat, point: Point, measureDist: boolean): number;
+  }
+
+  export default cv;
+}